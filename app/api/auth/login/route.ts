@@ -0,0 +1,66 @@
+/**
+ * Login API Route
+ * ---------------
+ * Checks a username and password against AUTH_USERS and, on success, sets the
+ * signed session cookie used by the middleware.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE,
+  authenticateUser,
+  createSessionToken,
+  getSessionMaxAgeSeconds,
+  isAuthConfigured,
+} from '@/lib/auth';
+
+/**
+ * POST /api/auth/login
+ * --------------------
+ * Payload (JSON body): { username: string, password: string }
+ *
+ * Returns { success: true, data: { username, role } } and sets the session cookie,
+ * or { success: false, error } with 401 for wrong credentials.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Login is not configured. Set AUTH_SECRET and AUTH_USERS.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const username = typeof body?.username === 'string' ? body.username.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!username || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Send JSON with username and password.' },
+        { status: 400 }
+      );
+    }
+
+    const role = authenticateUser(username, password);
+    if (!role) {
+      console.warn(`[api/auth/login] Failed login for "${username}"`);
+      return NextResponse.json({ success: false, error: 'Wrong username or password.' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true, data: { username, role } });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(username, role), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: getSessionMaxAgeSeconds(),
+    });
+    return response;
+  } catch (err) {
+    console.error('[api/auth/login] Error:', err);
+    return NextResponse.json(
+      { success: false, error: 'Request could not be processed. Ensure the body is valid JSON.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Logout API Route
+ * ----------------
+ * Clears the session cookie and sends the browser back to the login page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth';
+
+/**
+ * POST /api/auth/logout
+ * ---------------------
+ * Used as a plain form action; responds with a 303 redirect to /login.
+ */
+export async function POST(request: NextRequest) {
+  const response = NextResponse.redirect(new URL('/login', request.url), 303);
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,64 @@
+/**
+ * Message Log API Route
+ * ---------------------
+ * Reads the append-only message log. Returns either the raw entries or the
+ * wide grid view (one dated column per event next to each worker's row) that
+ * the sheet used to be written as.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildWideGrid, readLogEntries } from '@/lib/messageLog';
+import { readWorkerRows } from '@/lib/workers';
+
+/**
+ * GET /api/message-log?view=entries|grid&review=1
+ * -----------------------------------------------
+ * - view=entries (default): { success: true, data: LogEntry[] } oldest first
+ * - view=grid:              { success: true, data: string[][] } rows of cells, row 1 = headings
+ * - review=1:               only entries flagged for review (low STT confidence)
+ *
+ * Sample cURL:
+ *   curl -b cookies.txt "http://localhost:3000/api/message-log?view=grid"
+ *
+ * Sample cURL — Transcripts to check:
+ *   curl -b cookies.txt "http://localhost:3000/api/message-log?review=1"
+ */
+export async function GET(request: NextRequest) {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    return NextResponse.json(
+      { success: false, error: 'GOOGLE_SHEET_ID not set.' },
+      { status: 503 }
+    );
+  }
+
+  const view = request.nextUrl.searchParams.get('view') ?? 'entries';
+  if (view !== 'entries' && view !== 'grid') {
+    return NextResponse.json(
+      { success: false, error: 'Invalid view. Use "entries" or "grid".' },
+      { status: 400 }
+    );
+  }
+
+  const onlyReview = request.nextUrl.searchParams.get('review') === '1';
+  const allEntries = await readLogEntries(spreadsheetId);
+  if (!allEntries) {
+    return NextResponse.json(
+      { success: false, error: 'Could not read the message log.' },
+      { status: 502 }
+    );
+  }
+  const entries = onlyReview ? allEntries.filter((e) => e.needsReview) : allEntries;
+  if (view === 'entries') {
+    return NextResponse.json({ success: true, data: entries });
+  }
+
+  const workers = await readWorkerRows(spreadsheetId);
+  if (!workers) {
+    return NextResponse.json(
+      { success: false, error: 'Could not read the worker rows.' },
+      { status: 502 }
+    );
+  }
+  return NextResponse.json({ success: true, data: buildWideGrid(entries, workers) });
+}
@@ -0,0 +1,55 @@
+/**
+ * Scheduler Status API Route
+ * --------------------------
+ * Read-only view of the sync schedule for the /cron-job page: the configured
+ * times, the next planned runs and the history of past runs.
+ */
+
+import { NextResponse } from 'next/server';
+import { getScheduleConfig, getUpcomingRuns } from '@/lib/schedule';
+import { listRuns } from '@/lib/syncRuns';
+
+/** Always read fresh data; never cache the GET response at build time. */
+export const dynamic = 'force-dynamic';
+
+/** How many past runs the page shows. */
+const HISTORY_LIMIT = 30;
+
+/**
+ * GET /api/scheduler
+ * ------------------
+ * Success response:
+ *   { success: true, data: { timezone, schedulerEnabled, upcoming: PlannedRun[], history: SyncRun[] } }
+ */
+export async function GET() {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    return NextResponse.json(
+      { success: false, error: 'GOOGLE_SHEET_ID not set.' },
+      { status: 503 }
+    );
+  }
+
+  const config = getScheduleConfig();
+  const history = await listRuns(spreadsheetId, HISTORY_LIMIT);
+  if (!history) {
+    return NextResponse.json(
+      { success: false, error: 'Could not read the sync run history.' },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      timezone: config.timezone,
+      schedulerEnabled: process.env.SCHEDULER_ENABLED?.trim() === 'true',
+      upcoming: getUpcomingRuns(new Date(), 6, config).map((r) => ({
+        key: r.key,
+        type: r.type,
+        scheduledFor: r.scheduledFor.toISOString(),
+      })),
+      history,
+    },
+  });
+}
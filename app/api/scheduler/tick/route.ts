@@ -0,0 +1,81 @@
+/**
+ * Scheduler Tick API Route
+ * ------------------------
+ * Entry point for an external cron (Vercel Cron, cron-job.org, crontab + curl).
+ * Runs every planned sync that is due and has not fired yet; calling it more
+ * often than needed is harmless. Also sends due follow-up reminders and
+ * supervisor summaries, retries failed background jobs, applies the recording retention policy
+ * (at most once a day) and drops expired TTS cache entries. Requires `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Sample cURL:
+ *   curl -X POST http://localhost:3000/api/scheduler/tick \
+ *     -H "Authorization: Bearer $CRON_SECRET"
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runFollowUps } from '@/lib/followUps';
+import { runDueJobs } from '@/lib/jobs';
+import { runDueSyncs } from '@/lib/scheduler';
+import { purgeRecordingsIfDue } from '@/lib/storage/retention';
+import { pruneTtsCache } from '@/lib/ttsCache';
+
+/** Constant-time check of the bearer token against CRON_SECRET. */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const a = Buffer.from(token);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function handleTick(request: NextRequest) {
+  const secret = process.env.CRON_SECRET?.trim();
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: 'CRON_SECRET not set.' },
+      { status: 503 }
+    );
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized.' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const runs = await runDueSyncs('external');
+    const followUps = await runFollowUps();
+    await runDueJobs();
+    const retention = await purgeRecordingsIfDue();
+    const ttsCachePruned = await pruneTtsCache();
+    return NextResponse.json({
+      success: runs.every((r) => !r.outcome || r.outcome.success),
+      message: runs.length === 0 ? 'No syncs due.' : `${runs.filter((r) => r.executed).length} sync(s) run.`,
+      runs,
+      followUps,
+      retention,
+      ttsCachePruned,
+    });
+  } catch (err) {
+    console.error('[scheduler/tick] Error:', err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : 'Scheduler tick failed.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/** GET /api/scheduler/tick — Vercel Cron calls with GET. */
+export async function GET(request: NextRequest) {
+  return handleTick(request);
+}
+
+/** POST /api/scheduler/tick */
+export async function POST(request: NextRequest) {
+  return handleTick(request);
+}
@@ -5,10 +5,15 @@
  * a JSON body describing what they want to do (read or update a sheet).
  * All communication with Google happens on the server; credentials never
  * leave the server.
+ *
+ * Requires a signed-in session (see middleware.ts); updates need the admin role.
+ * Only spreadsheets in SHEETS_ALLOWED_SPREADSHEET_IDS (default: GOOGLE_SHEET_ID)
+ * and, when SHEETS_ALLOWED_TABS is set, only those tabs can be reached.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { readSheet, updateSheet } from '@/lib/googleSheets';
+import { ROLE_HEADER } from '@/lib/auth';
 
 // --- Request body types ---
 // We expect a JSON body with an "action" and the data needed for that action.
@@ -56,6 +61,55 @@ function resolveSpreadsheetId(body: SheetsRequestBody): string {
   return fromBody || process.env.GOOGLE_SHEET_ID?.trim() || '';
 }
 
+/** Comma-separated env list, trimmed, without empty entries. */
+function envList(name: string): string[] {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/** Cell ("B2"), or one end of a column/row span ("B", "2", "B2"); "$" anchors allowed. */
+const A1_CELL = String.raw`\$?[A-Za-z]{1,3}\$?\d+`;
+const A1_END = String.raw`(?:\$?[A-Za-z]{1,3}\$?\d*|\$?\d+)`;
+
+/** A range without a tab: one cell or a span such as "A1:D10", "A:C" or "2:5". */
+const BARE_CELL_RANGE = new RegExp(`^(?:${A1_CELL}|${A1_END}:${A1_END})$`);
+
+function unquoteTab(tab: string): string {
+  return tab.startsWith("'") && tab.endsWith("'") ? tab.slice(1, -1).replace(/''/g, "'") : tab;
+}
+
+/**
+ * Tab named in an A1 range ("Sheet1!A1:B2", "'My Tab'!A1", or a bare tab name
+ * such as "Log", which means the whole tab), or null when the range is only
+ * cells and so refers to the first tab.
+ */
+function rangeTab(range: string): string | null {
+  const trimmed = range.trim();
+  const bang = trimmed.lastIndexOf('!');
+  if (bang !== -1) return unquoteTab(trimmed.slice(0, bang).trim());
+  return BARE_CELL_RANGE.test(trimmed) ? null : unquoteTab(trimmed);
+}
+
+/**
+ * Returns why the spreadsheet/range is off-limits, or null if it is allowed.
+ * Cell ranges without a tab (the first tab, where the worker rows live) are always allowed.
+ */
+function checkAllowed(spreadsheetId: string, range: string): string | null {
+  const allowedIds = envList('SHEETS_ALLOWED_SPREADSHEET_IDS');
+  const defaultId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (allowedIds.length === 0 && defaultId) allowedIds.push(defaultId);
+  if (!allowedIds.includes(spreadsheetId)) return 'This spreadsheet is not in the allow-list.';
+
+  const allowedTabs = envList('SHEETS_ALLOWED_TABS').map((t) => t.toLowerCase());
+  const tab = rangeTab(range);
+  if (allowedTabs.length > 0 && tab !== null && !allowedTabs.includes(tab.toLowerCase())) {
+    return `Tab "${tab}" is not in the allow-list.`;
+  }
+  return null;
+}
+
 /**
  * POST /api/sheets
  * ----------------
@@ -70,21 +124,27 @@ function resolveSpreadsheetId(body: SheetsRequestBody): string {
  *   - range: string             (required) — A1 notation, e.g. "Sheet1!A1:D10"
  *   - values: string[][]        (required for action "update") — 2D array of cell values
  *
+ * Sample cURL — Sign in first (stores the session cookie in cookies.txt):
+ *   curl -c cookies.txt -X POST http://localhost:3000/api/auth/login \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"username":"admin","password":"YOUR_PASSWORD"}'
+ *
  * Sample cURL — Read range:
- *   curl -X POST http://localhost:3000/api/sheets \
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/sheets \
  *     -H "Content-Type: application/json" \
  *     -d '{"action":"read","spreadsheetId":"YOUR_SHEET_ID","range":"Sheet1!A1:D10"}'
  *
- * Sample cURL — Update range:
- *   curl -X POST http://localhost:3000/api/sheets \
+ * Sample cURL — Update range (admin):
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/sheets \
  *     -H "Content-Type: application/json" \
  *     -d '{"action":"update","spreadsheetId":"YOUR_SHEET_ID","range":"Sheet1!A1:B2","values":[["Hello","World"],["Row2","Data"]]}'
  *
  * Flow:
  * 1. POST only (no GET) so sheet IDs and ranges are not logged in URLs.
  * 2. Parse and validate JSON body (action, spreadsheetId, range; for update: values).
- * 3. Call readSheet or updateSheet from server-only lib.
- * 4. Return JSON: { success, data? } or { success: false, error }.
+ * 3. Reject spreadsheets/tabs outside the allow-list (403) and updates from non-admins (403).
+ * 4. Call readSheet or updateSheet from server-only lib.
+ * 5. Return JSON: { success, data? } or { success: false, error }.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -102,6 +162,14 @@ export async function POST(request: NextRequest) {
     const { action, range } = body;
     const spreadsheetId = resolveSpreadsheetId(body);
 
+    const notAllowed = checkAllowed(spreadsheetId, range);
+    if (notAllowed) {
+      return NextResponse.json({ success: false, error: notAllowed }, { status: 403 });
+    }
+    if (action === 'update' && request.headers.get(ROLE_HEADER) !== 'admin') {
+      return NextResponse.json({ success: false, error: 'Admin role required.' }, { status: 403 });
+    }
+
     if (action === 'read') {
       const data = await readSheet(spreadsheetId, range);
       if (data === null) {
@@ -0,0 +1,65 @@
+/**
+ * Local Storage File Route
+ * ------------------------
+ * Serves files kept by the local storage backend (STORAGE_BACKEND=local), so
+ * the voice flow works without S3. Only signed URLs (?expires=&signature=) are
+ * served; they are refused once expired or tampered with. Files come from
+ * workers and are served from the admin app's origin, so only media and PDFs
+ * are shown inline; anything else (HTML, SVG, ...) is sent as a download.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage, getStorageSigningSecret } from '@/lib/storage';
+import { verifyLocalSignature } from '@/lib/storage/local';
+
+/** Sent with every response so browsers never guess a more dangerous type. */
+const NO_SNIFF = { 'X-Content-Type-Options': 'nosniff' };
+
+/** Types a browser renders without running script: images (but not SVG), audio, video and PDF. */
+function isSafeInline(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === 'application/pdf') return true;
+  if (type.startsWith('image/')) return type !== 'image/svg+xml';
+  return type.startsWith('audio/') || type.startsWith('video/');
+}
+
+/**
+ * GET /api/storage/<key>?expires=<unix seconds>&signature=<hex>
+ * -------------------------------------------------------------
+ * Returns the file body: media and PDFs inline with their content type, anything else as an
+ * octet-stream attachment. { success: false, error } on 404/403.
+ */
+export async function GET(request: NextRequest, { params }: { params: { key: string[] } }) {
+  const storage = getStorage();
+  if (storage?.name !== 'local') {
+    return NextResponse.json({ success: false, error: 'Not found.' }, { status: 404, headers: NO_SNIFF });
+  }
+
+  const key = params.key.map(decodeURIComponent).join('/');
+  const { searchParams } = request.nextUrl;
+  const valid = verifyLocalSignature(
+    getStorageSigningSecret(),
+    key,
+    searchParams.get('expires'),
+    searchParams.get('signature')
+  );
+  if (!valid) {
+    return NextResponse.json({ success: false, error: 'Link expired or invalid.' }, { status: 403, headers: NO_SNIFF });
+  }
+
+  const object = await storage.get(key);
+  if (!object) {
+    return NextResponse.json({ success: false, error: 'Not found.' }, { status: 404, headers: NO_SNIFF });
+  }
+  const inline = isSafeInline(object.contentType);
+  const filename = (key.split('/').pop() ?? 'file').replace(/[^\w.-]/g, '_');
+  return new NextResponse(new Uint8Array(object.body), {
+    headers: {
+      ...NO_SNIFF,
+      'Content-Type': inline ? object.contentType : 'application/octet-stream',
+      'Content-Disposition': inline ? 'inline' : `attachment; filename="${filename}"`,
+      'Content-Length': String(object.body.length),
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Telegram Webhook Management API Route
+ * -------------------------------------
+ * Registers, inspects and removes the bot's webhook with Telegram, always
+ * passing TELEGRAM_WEBHOOK_SECRET as secret_token so the webhook route can
+ * reject updates that do not come from Telegram. Replaces check-webhook.sh.
+ *
+ * Every method requires `Authorization: Bearer <TELEGRAM_WEBHOOK_SECRET>`.
+ *
+ * Ref: https://core.telegram.org/bots/api#setwebhook
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookSecret, secretsMatch } from '@/lib/telegram';
+import { telegramRequest, type TelegramResult } from '@/lib/telegramClient';
+import { syncBotCommands } from '@/lib/bot/commands';
+
+/** Path of the webhook route, appended to APP_BASE_URL when no url is given. */
+const WEBHOOK_PATH = '/api/telegram/webhook';
+
+/** Shape of the request body for POST (all optional). */
+interface SetWebhookBody {
+  /** Full HTTPS URL of the webhook; defaults to APP_BASE_URL + /api/telegram/webhook. */
+  url?: string;
+  /** Drop updates queued while the webhook was unreachable. */
+  drop_pending_updates?: boolean;
+}
+
+/** Always read fresh data; never cache the GET response at build time. */
+export const dynamic = 'force-dynamic';
+
+/**
+ * Returns an error response if the secret is not configured or the caller did not
+ * send it as a bearer token; null if the request may proceed.
+ */
+function checkAuth(request: NextRequest): NextResponse | null {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: 'TELEGRAM_WEBHOOK_SECRET not set.' },
+      { status: 503 }
+    );
+  }
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (!secretsMatch(token, secret)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized.' }, { status: 401 });
+  }
+  return null;
+}
+
+/** Maps a Bot API call result to our { success, data } / { success: false, error } shape. */
+function toResponse(result: TelegramResult<unknown>) {
+  if (!result.ok) {
+    return NextResponse.json(
+      { success: false, error: result.error.message },
+      { status: result.error.code === 'not_configured' ? 503 : 502 }
+    );
+  }
+  return NextResponse.json({ success: true, data: result.data });
+}
+
+/**
+ * GET /api/telegram/webhook-config
+ * --------------------------------
+ * Returns getWebhookInfo (url, pending_update_count, last_error_message, ...).
+ *
+ * Sample cURL:
+ *   curl http://localhost:3000/api/telegram/webhook-config \
+ *     -H "Authorization: Bearer $TELEGRAM_WEBHOOK_SECRET"
+ */
+export async function GET(request: NextRequest) {
+  const denied = checkAuth(request);
+  if (denied) return denied;
+  return toResponse(await telegramRequest('getWebhookInfo'));
+}
+
+/**
+ * POST /api/telegram/webhook-config
+ * ---------------------------------
+ * Calls setWebhook with the secret_token, then publishes the bot's command
+ * list (setMyCommands) so Telegram shows it in the command menu.
+ *
+ * Payload (JSON body, optional):
+ *   - url?: string                    — defaults to APP_BASE_URL + /api/telegram/webhook
+ *   - drop_pending_updates?: boolean
+ *
+ * Sample cURL:
+ *   curl -X POST http://localhost:3000/api/telegram/webhook-config \
+ *     -H "Authorization: Bearer $TELEGRAM_WEBHOOK_SECRET" \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"url":"https://random-name.loca.lt/api/telegram/webhook"}'
+ */
+export async function POST(request: NextRequest) {
+  const denied = checkAuth(request);
+  if (denied) return denied;
+
+  const body = (await request.json().catch(() => ({}))) as SetWebhookBody;
+  const baseUrl = process.env.APP_BASE_URL?.trim().replace(/\/$/, '');
+  const url = typeof body.url === 'string' && body.url.trim()
+    ? body.url.trim()
+    : baseUrl
+      ? `${baseUrl}${WEBHOOK_PATH}`
+      : '';
+  if (!url.startsWith('https://')) {
+    return NextResponse.json(
+      { success: false, error: 'Send an HTTPS "url", or set APP_BASE_URL to the app\'s public HTTPS URL.' },
+      { status: 400 }
+    );
+  }
+
+  const result = await telegramRequest('setWebhook', {
+    url,
+    secret_token: getWebhookSecret(),
+    drop_pending_updates: body.drop_pending_updates === true,
+  });
+  if (result.ok && !(await syncBotCommands())) {
+    console.warn('[webhook-config] Webhook set, but setMyCommands failed');
+  }
+  return toResponse(result);
+}
+
+/**
+ * DELETE /api/telegram/webhook-config
+ * -----------------------------------
+ * Calls deleteWebhook. Add ?drop_pending_updates=true to discard queued updates.
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = checkAuth(request);
+  if (denied) return denied;
+
+  const drop = request.nextUrl.searchParams.get('drop_pending_updates') === 'true';
+  return toResponse(await telegramRequest('deleteWebhook', { drop_pending_updates: drop }));
+}
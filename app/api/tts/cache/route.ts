@@ -0,0 +1,28 @@
+/**
+ * TTS Cache Stats API Route
+ * -------------------------
+ * Reports how well the TTS audio cache (lib/ttsCache.ts) is working.
+ */
+
+import { NextResponse } from 'next/server';
+import { getTtsCacheStats } from '@/lib/ttsCache';
+
+/** Always read fresh data; never cache the GET response at build time. */
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tts/cache
+ * ------------------
+ * Returns { success: true, data: { hits, misses, expired, storeFailures, entries, since, hitRate } }.
+ *
+ * Sample cURL:
+ *   curl -b cookies.txt http://localhost:3000/api/tts/cache
+ */
+export async function GET() {
+  const stats = await getTtsCacheStats();
+  const lookups = stats.hits + stats.misses;
+  return NextResponse.json({
+    success: true,
+    data: { ...stats, hitRate: lookups > 0 ? stats.hits / lookups : null },
+  });
+}
@@ -2,33 +2,60 @@
  * Text-to-Speech API Route (Sarvam AI)
  * ------------------------------------
  * Server-only proxy to Sarvam's TTS API. Clients send a POST with the text
- * to speak; we call Sarvam with the API key from env and return base64 audio.
- * The API key never leaves the server.
+ * to speak; we call Sarvam through lib/sarvam (shared defaults, timeouts and
+ * retries) and return base64 audio, a cached-audio URL, or the audio as binary. With
+ * long_text, text over the single-request limit is chunked and the clips are
+ * joined. The API key never leaves the server.
  *
  * Ref: https://docs.sarvam.ai/api-reference-docs/api-guides-tutorials/text-to-speech/rest-api
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { mp3Frames } from '@/lib/audio/concat';
+import { OGG_OPUS_CONTENT_TYPE, OGG_OPUS_FORMAT, transcodeToOggOpus } from '@/lib/audio/transcode';
+import { getStorage } from '@/lib/storage';
+import { getOrCreateTts, ttsCacheParams } from '@/lib/ttsCache';
+import {
+  contentTypeForFormat,
+  httpStatusForSarvamError,
+  SARVAM_DEFAULTS,
+  synthesizeLongSpeech,
+  synthesizeSpeech,
+  TTS_MAX_TEXT_LENGTH as MAX_TEXT_LENGTH,
+  type LongTtsAudio,
+  type SarvamError,
+  type TtsOptions,
+} from '@/lib/sarvam';
 
-/** Max length Sarvam TTS accepts for a single request (Bulbul v3). */
-const MAX_TEXT_LENGTH = 2500;
+/** Max length accepted with long_text (split into chunks of at most MAX_TEXT_LENGTH). */
+const MAX_LONG_TEXT_LENGTH = 20000;
+
+/** Lifetime of URLs returned with response "url" (TTS_URL_TTL_SECONDS, default 3600). */
+function getTtsUrlTtlSeconds(): number {
+  const seconds = Number(process.env.TTS_URL_TTL_SECONDS);
+  return Number.isInteger(seconds) && seconds > 0 ? seconds : 3600;
+}
 
 /** Shape of the request body. */
 interface TTSRequestBody {
   /** Text to convert to speech. */
   text: string;
-  /** Optional: BCP-47 language code (e.g. en-IN, hi-IN). Defaults to en-IN. */
+  /** Optional: BCP-47 language code (e.g. en-IN, hi-IN). Defaults to SARVAM_DEFAULTS.tts. */
   target_language_code?: string;
-  /** Optional: Speaker/voice (e.g. shubh, aditya). Defaults to shubh. */
+  /** Optional: Speaker/voice (e.g. shubh, aditya). Defaults to SARVAM_DEFAULTS.tts. */
   speaker?: string;
-  /** Optional: Model. Bulbul v3 is recommended. */
+  /** Optional: Model. Defaults to SARVAM_DEFAULTS.tts (Bulbul v3). */
   model?: string;
   /** Optional: Speech pace 0.5–2.0. */
   pace?: number;
   /** Optional: Sample rate in Hz (e.g. 24000). */
   sample_rate?: number;
-  /** Optional: Output format (e.g. mp3, wav). */
+  /** Optional: Output format (mp3, wav, or ogg_opus for a Telegram voice note). Long text needs one of these. */
   output_format?: string;
+  /** Optional: Allow text over MAX_TEXT_LENGTH by splitting it into chunks. */
+  long_text?: boolean;
+  /** Optional: "base64" (default, JSON), "stream" (binary audio body) or "url" (JSON with a signed URL). */
+  response?: 'base64' | 'stream' | 'url';
 }
 
 /**
@@ -38,7 +65,9 @@ function validateBody(body: unknown): body is TTSRequestBody {
   if (!body || typeof body !== 'object') return false;
   const b = body as Record<string, unknown>;
   if (typeof b.text !== 'string' || !b.text.trim()) return false;
-  if (b.text.length > MAX_TEXT_LENGTH) return false;
+  if (b.long_text != null && typeof b.long_text !== 'boolean') return false;
+  if (b.text.length > (b.long_text ? MAX_LONG_TEXT_LENGTH : MAX_TEXT_LENGTH)) return false;
+  if (b.response != null && b.response !== 'base64' && b.response !== 'stream' && b.response !== 'url') return false;
   if (b.target_language_code != null && typeof b.target_language_code !== 'string') return false;
   if (b.speaker != null && typeof b.speaker !== 'string') return false;
   if (b.model != null && typeof b.model !== 'string') return false;
@@ -48,6 +77,43 @@ function validateBody(body: unknown): body is TTSRequestBody {
   return true;
 }
 
+function errorResponse(error: SarvamError) {
+  return NextResponse.json(
+    { success: false, error: `TTS request failed. ${error.message}` },
+    { status: httpStatusForSarvamError(error) }
+  );
+}
+
+/**
+ * Streams long-text audio as clips become ready (mp3 clips can be appended as
+ * they arrive). Waits for the first clip so an early failure is still a JSON error.
+ */
+async function streamLongSpeech(text: string, options: TtsOptions, format: string) {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const stream = new ReadableStream<Uint8Array>({ start: (c) => void (controller = c) });
+
+  let firstClip!: () => void;
+  const firstClipReady = new Promise<void>((resolve) => (firstClip = resolve));
+  const onClip = (clip: Buffer) => {
+    controller.enqueue(new Uint8Array(mp3Frames(clip)));
+    firstClip();
+  };
+  const synthesis = synthesizeLongSpeech(text, { ...options, onClip: format === 'mp3' ? onClip : undefined });
+
+  const settled = synthesis.then((result) => {
+    if (result.ok && format !== 'mp3') controller.enqueue(new Uint8Array(result.data.audio));
+    if (result.ok) controller.close();
+    else controller.error(new Error(result.error.message));
+    return result;
+  });
+
+  const first = await Promise.race([firstClipReady.then(() => null), settled]);
+  if (first && !first.ok) return errorResponse(first.error);
+  return new NextResponse(stream, {
+    headers: { 'Content-Type': contentTypeForFormat(format), 'Cache-Control': 'no-store' },
+  });
+}
+
 /**
  * POST /api/tts
  * -------------
@@ -58,123 +124,132 @@ function validateBody(body: unknown): body is TTSRequestBody {
  *
  * Payload (JSON body):
  *   - text: string              (required) — Up to 2500 characters
- *   - target_language_code?: string  (optional) — e.g. "en-IN", "hi-IN"
- *   - speaker?: string          (optional) — e.g. "shubh", "aditya"
+ *   - target_language_code?: string  (optional) — e.g. "en-IN", "hi-IN"; default from SARVAM_DEFAULTS
+ *   - speaker?: string          (optional) — e.g. "shubh", "aditya"; default from SARVAM_DEFAULTS
  *   - model?: string            (optional) — default "bulbul:v3"
  *   - pace?: number             (optional) — 0.5 to 2.0
  *   - sample_rate?: number      (optional) — 8000 to 48000
- *   - output_format?: string    (optional) — e.g. "mp3", "wav"
+ *   - output_format?: string    (optional) — e.g. "mp3", "wav", or "ogg_opus" (needs ffmpeg)
+ *   - long_text?: boolean       (optional) — allow up to 20000 characters; needs mp3 or wav
+ *   - response?: string         (optional) — "base64" (default), "stream" or "url"
  *
- * Success response: { success: true, audioBase64: string, contentType: string }
+ * Success response: { success: true, audioBase64: string, contentType: string, cached: boolean,
+ *                     chunks?: number, durationSeconds?: number | null (ogg_opus only) }
+ *                   with response "url": { success: true, url: string, ... } (signed, TTS_URL_TTL_SECONDS)
+ *                   with response "stream": the audio itself (Content-Type: audio/..., X-TTS-Cache: hit|miss)
  * Error response:    { success: false, error: string }
  *
  * Sample cURL — Basic (text only):
- *   curl -X POST http://localhost:3000/api/tts \
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/tts \
  *     -H "Content-Type: application/json" \
  *     -d '{"text":"Hello, this is a test."}'
  *
  * Sample cURL — With options (language, speaker):
- *   curl -X POST http://localhost:3000/api/tts \
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/tts \
  *     -H "Content-Type: application/json" \
  *     -d '{"text":"नमस्ते","target_language_code":"hi-IN","speaker":"shubh","output_format":"mp3"}'
  *
+ * Sample cURL — Long text, streamed to a file:
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/tts \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"text":"<long text>","long_text":true,"response":"stream"}' -o speech.mp3
+ *
  * Flow:
- * 1. Validate JSON body and text length.
- * 2. Call Sarvam TTS API with API key from SARVAM_API_KEY env.
- * 3. Return base64 audio (or forward error).
+ * 1. Validate JSON body and text length (MAX_LONG_TEXT_LENGTH with long_text).
+ * 2. Call Sarvam TTS via lib/sarvam (API key from SARVAM_API_KEY env).
+ *    Long text is split at sentence boundaries and synthesised in parallel chunks.
+ *    For ogg_opus, the mp3 from Sarvam is transcoded with ffmpeg.
+ *    Audio is cached by text + voice settings (lib/ttsCache), so repeats skip Sarvam.
+ * 3. Return base64 audio, a URL or the audio stream (or forward error).
  */
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.SARVAM_API_KEY;
-    if (!apiKey?.trim()) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'TTS not configured. Set SARVAM_API_KEY in the environment.',
-        },
-        { status: 503 }
-      );
-    }
-
     const body = await request.json();
     if (!validateBody(body)) {
       return NextResponse.json(
         {
           success: false,
-          error: `Invalid request. Send JSON with "text" (string, max ${MAX_TEXT_LENGTH} characters). Optional: target_language_code, speaker, model, pace, sample_rate, output_format.`,
+          error: `Invalid request. Send JSON with "text" (string, max ${MAX_TEXT_LENGTH} characters, or ${MAX_LONG_TEXT_LENGTH} with long_text). Optional: target_language_code, speaker, model, pace, sample_rate, output_format, long_text, response ("base64" | "stream" | "url").`,
         },
         { status: 400 }
       );
     }
 
-    const {
-      text,
-      target_language_code = 'en-IN',
-      speaker = 'hitesh',
-      model = 'bulbul:v2',
-      pace = 1,
-      sample_rate = 24000,
-      output_format = 'mp3',
-    } = body;
-
-    const payload = {
-      text: text.trim(),
-      target_language_code,
-      speaker,
-      model,
-      pace,
-      sample_rate,
-      output_format,
+    const format = body.output_format ?? SARVAM_DEFAULTS.tts.outputFormat;
+    const wantsOggOpus = format === OGG_OPUS_FORMAT;
+    const options: TtsOptions = {
+      languageCode: body.target_language_code,
+      speaker: body.speaker,
+      model: body.model,
+      pace: body.pace,
+      sampleRate: body.sample_rate,
+      // OGG/Opus is made from Sarvam's mp3 by transcoding
+      outputFormat: wantsOggOpus ? 'mp3' : format,
     };
 
-    const res = await fetch('https://api.sarvam.ai/text-to-speech', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'api-subscription-key': apiKey,
-      },
-      body: JSON.stringify(payload),
+    // Long text streams clip by clip as it is generated (not cached)
+    if (body.long_text && body.response === 'stream' && !wantsOggOpus) {
+      return streamLongSpeech(body.text, options, format);
+    }
+
+    let failure: NextResponse | null = null;
+    let chunks: number | undefined;
+    const result = await getOrCreateTts(ttsCacheParams(body.text, { ...options, outputFormat: format }), async () => {
+      const tts = body.long_text
+        ? await synthesizeLongSpeech(body.text, options)
+        : await synthesizeSpeech(body.text, options);
+      if (!tts.ok) {
+        failure = errorResponse(tts.error);
+        return null;
+      }
+      if ('chunkCount' in tts.data) chunks = (tts.data as LongTtsAudio).chunkCount;
+      if (!wantsOggOpus) return tts.data;
+
+      const ogg = await transcodeToOggOpus(tts.data.audio);
+      if (!ogg) {
+        failure = NextResponse.json(
+          {
+            success: false,
+            error: 'Could not convert the audio to OGG/Opus. Check that ffmpeg is installed (FFMPEG_PATH).',
+          },
+          { status: 500 }
+        );
+        return null;
+      }
+      return { audio: ogg.audio, contentType: OGG_OPUS_CONTENT_TYPE, durationSeconds: ogg.durationSeconds };
     });
+    if (!result) {
+      return failure ?? NextResponse.json({ success: false, error: 'TTS request failed.' }, { status: 502 });
+    }
 
-    if (!res.ok) {
-      const errText = await res.text();
-      console.error('[api/tts] Sarvam API error:', res.status, errText);
-      return NextResponse.json(
-        {
-          success: false,
-          error: `TTS request failed (${res.status}). ${errText.slice(0, 200)}`,
+    const { audio, contentType, durationSeconds } = result;
+    if (body.response === 'stream') {
+      return new NextResponse(new Uint8Array(audio), {
+        headers: {
+          'Content-Type': contentType,
+          'Cache-Control': 'no-store',
+          'X-TTS-Cache': result.hit ? 'hit' : 'miss',
+          ...(durationSeconds != null ? { 'X-Audio-Duration': String(durationSeconds) } : {}),
         },
-        { status: res.status >= 500 ? 502 : res.status }
-      );
+      });
     }
 
-    const data = await res.json();
-    // Sarvam returns { request_id, audios } — audios is an array of base64 strings or objects.
-    const audios = data?.audios;
-    const first = Array.isArray(audios) && audios.length > 0 ? audios[0] : undefined;
-    const audioBase64 =
-      typeof first === 'string'
-        ? first
-        : first && typeof first === 'object'
-          ? (first as { audio_content?: string; audio?: string }).audio_content ??
-            (first as { audio?: string }).audio
-          : undefined;
-    const resolved =
-      audioBase64 ?? data?.audio_content ?? data?.audioBase64 ?? data?.audio;
-    if (!resolved || typeof resolved !== 'string') {
-      console.error('[api/tts] Unexpected Sarvam response shape:', Object.keys(data ?? {}));
-      return NextResponse.json(
-        { success: false, error: 'TTS returned invalid response (no audio).' },
-        { status: 502 }
-      );
+    const extra = {
+      cached: result.hit,
+      ...(chunks !== undefined ? { chunks } : {}),
+      ...(wantsOggOpus ? { durationSeconds: durationSeconds ?? null } : {}),
+    };
+    if (body.response === 'url') {
+      const url = result.key ? await getStorage()?.getSignedUrl(result.key, getTtsUrlTtlSeconds()) : null;
+      if (!url) {
+        return NextResponse.json(
+          { success: false, error: 'Audio URLs need storage to be configured (see STORAGE_BACKEND).' },
+          { status: 503 }
+        );
+      }
+      return NextResponse.json({ success: true, url, contentType, ...extra });
     }
-
-    const contentType = output_format === 'wav' ? 'audio/wav' : output_format === 'mp3' ? 'audio/mpeg' : `audio/${output_format}`;
-    return NextResponse.json({
-      success: true,
-      audioBase64: resolved,
-      contentType,
-    });
+    return NextResponse.json({ success: true, audioBase64: audio.toString('base64'), contentType, ...extra });
   } catch (err) {
     console.error('[api/tts] Error:', err);
     return NextResponse.json(
@@ -0,0 +1,187 @@
+/**
+ * Worker Registry API Route
+ * -------------------------
+ * Admin endpoint for the Owner <-> Telegram registry that workers fill with
+ * `/register <Owner name>`. Lists registrations alongside the Owners in the
+ * main sheet, and lets admins add, edit or remove entries, including each
+ * worker's language, speaker and pace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readWorkerRows } from '@/lib/workers';
+import {
+  listRegistrations,
+  removeRegistration,
+  upsertRegistration,
+  type WorkerRegistrationInput,
+} from '@/lib/workerRegistry';
+import {
+  getAvailableSpeakers,
+  parseLanguage,
+  parsePace,
+  parseSpeaker,
+  WORKER_LANGUAGES,
+} from '@/lib/voicePreferences';
+
+/** Always read fresh data; never cache the GET response at build time. */
+export const dynamic = 'force-dynamic';
+
+/** Shape of the request body when action is "upsert". */
+interface UpsertBody extends WorkerRegistrationInput {
+  action: 'upsert';
+  /** Registry row to edit; omit to add a new entry. */
+  rowNumber?: number;
+}
+
+/** Shape of the request body when action is "remove". */
+interface RemoveBody {
+  action: 'remove';
+  rowNumber: number;
+}
+
+type WorkersRequestBody = UpsertBody | RemoveBody;
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === 'string' && v.trim().length > 0;
+}
+
+function validateBody(body: unknown): body is WorkersRequestBody {
+  if (!body || typeof body !== 'object') return false;
+  const b = body as Record<string, unknown>;
+  if (b.rowNumber != null && (typeof b.rowNumber !== 'number' || b.rowNumber < 2)) return false;
+  if (b.action === 'remove') return typeof b.rowNumber === 'number';
+  if (b.action !== 'upsert') return false;
+  if (!isNonEmptyString(b.owner) || !isNonEmptyString(b.chatId)) return false;
+  if (b.telegramUserId != null && typeof b.telegramUserId !== 'string') return false;
+  if (b.telegramName != null && typeof b.telegramName !== 'string') return false;
+  // Preferences may be blank ("use the default") but must otherwise be valid
+  if (b.language != null && (typeof b.language !== 'string' || (b.language.trim() && !parseLanguage(b.language)))) return false;
+  if (b.speaker != null && (typeof b.speaker !== 'string' || (b.speaker.trim() && !parseSpeaker(b.speaker)))) return false;
+  if (b.pace != null && (typeof b.pace !== 'string' || (b.pace.trim() && parsePace(b.pace) == null))) return false;
+  return true;
+}
+
+/**
+ * GET /api/workers
+ * ----------------
+ * Returns { success: true, data: { registrations, owners, languages, speakers } } where owners
+ * are the Owner names found in the main sheet (so unregistered workers are visible),
+ * languages are the ones a worker can choose ({ code, name }) and speakers the voices of
+ * the configured TTS model (empty if not known).
+ */
+export async function GET() {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    return NextResponse.json(
+      { success: false, error: 'GOOGLE_SHEET_ID not set.' },
+      { status: 503 }
+    );
+  }
+
+  const [registrations, workers] = await Promise.all([
+    listRegistrations(spreadsheetId),
+    readWorkerRows(spreadsheetId),
+  ]);
+  if (!registrations || !workers) {
+    return NextResponse.json(
+      { success: false, error: 'Could not read the sheet or the worker registry.' },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      registrations,
+      owners: workers.map((w) => w.owner),
+      languages: WORKER_LANGUAGES.map(({ code, name }) => ({ code, name })),
+      speakers: getAvailableSpeakers(),
+    },
+  });
+}
+
+/**
+ * POST /api/workers
+ * -----------------
+ * Payload (JSON body):
+ *   - action: "upsert" | "remove"   (required)
+ *   - rowNumber?: number            (required for "remove"; for "upsert" edits that row)
+ *   - owner, chatId: string         (required for "upsert")
+ *   - telegramUserId?, telegramName?: string
+ *   - language?, speaker?, pace?: string  (voice preferences; "" resets to the default, omit to keep;
+ *                                          speaker must be a voice of the configured TTS model)
+ *
+ * Sample cURL — Add a registration:
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/workers \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"action":"upsert","owner":"Ramesh","chatId":"752858351","telegramUserId":"752858351"}'
+ *
+ * Sample cURL — Set a worker's voice preferences:
+ *   curl -b cookies.txt -X POST http://localhost:3000/api/workers \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"action":"upsert","rowNumber":3,"owner":"Ramesh","chatId":"752858351","language":"mr-IN","speaker":"ratan","pace":"0.9"}'
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+    if (!spreadsheetId) {
+      return NextResponse.json(
+        { success: false, error: 'GOOGLE_SHEET_ID not set.' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    if (!validateBody(body)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            'Invalid request. Send JSON with action ("upsert" or "remove"); upsert needs owner and chatId, remove needs rowNumber. Language, speaker and pace must be supported values.',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.action === 'remove') {
+      const ok = await removeRegistration(spreadsheetId, body.rowNumber);
+      if (!ok) {
+        return NextResponse.json(
+          { success: false, error: 'Could not remove the registration.' },
+          { status: 502 }
+        );
+      }
+      return NextResponse.json({ success: true, message: 'Registration removed.' });
+    }
+
+    const ok = await upsertRegistration(
+      spreadsheetId,
+      {
+        owner: body.owner,
+        chatId: body.chatId,
+        telegramUserId: body.telegramUserId ?? '',
+        telegramName: body.telegramName ?? '',
+        language: body.language == null ? undefined : (parseLanguage(body.language) ?? ''),
+        speaker: body.speaker == null ? undefined : (parseSpeaker(body.speaker) ?? ''),
+        pace: body.pace == null ? undefined : String(parsePace(body.pace) ?? ''),
+      },
+      body.rowNumber
+    );
+    if (!ok) {
+      return NextResponse.json(
+        { success: false, error: 'Could not save the registration.' },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json({ success: true, message: 'Registration saved.' });
+  } catch (err) {
+    console.error('[api/workers] Error:', err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Request could not be processed. Ensure the body is valid JSON.',
+      },
+      { status: 400 }
+    );
+  }
+}
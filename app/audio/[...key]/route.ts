@@ -0,0 +1,21 @@
+/**
+ * Recording Link Route
+ * --------------------
+ * Permanent link to a voice recording, as written into the message log. The
+ * middleware makes sure the visitor is signed in; this route then redirects to
+ * a signed URL that expires after RECORDING_URL_TTL_SECONDS, so the recording
+ * itself is never publicly reachable.
+ */
+
+import { NextRequest } from 'next/server';
+import { RECORDINGS_PREFIX } from '@/lib/storage';
+import { redirectToSignedUrl } from '@/lib/storage/redirect';
+
+/**
+ * GET /audio/<key>
+ * ----------------
+ * Redirects (302) to a short-lived signed URL for the recording.
+ */
+export async function GET(request: NextRequest, { params }: { params: { key: string[] } }) {
+  return redirectToSignedUrl(request, params.key, RECORDINGS_PREFIX);
+}
@@ -1,12 +1,72 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+
+interface PlannedRun {
+  key: string;
+  type: string;
+  scheduledFor: string;
+}
+
+interface SyncRun {
+  rowNumber: number;
+  key: string;
+  type: string;
+  trigger: string;
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt: string;
+  status: string;
+  message: string;
+}
+
+interface SchedulerData {
+  timezone: string;
+  schedulerEnabled: boolean;
+  upcoming: PlannedRun[];
+  history: SyncRun[];
+}
+
+/** Formats an ISO timestamp in the schedule's timezone. */
+function formatInZone(iso: string, timezone: string): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-IN", {
+    timeZone: timezone,
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
 
 export default function CronJobPage() {
   const [morningLoading, setMorningLoading] = useState(false);
   const [morningResult, setMorningResult] = useState<{ ok: boolean; message: string } | null>(null);
   const [eveningLoading, setEveningLoading] = useState(false);
   const [eveningResult, setEveningResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [cutoffLoading, setCutoffLoading] = useState(false);
+  const [scheduler, setScheduler] = useState<SchedulerData | null>(null);
+  const [schedulerError, setSchedulerError] = useState<string | null>(null);
+
+  async function loadScheduler() {
+    try {
+      const res = await fetch("/api/scheduler");
+      const json = await res.json();
+      if (!json.success) {
+        setSchedulerError(json.error ?? "Could not load schedule");
+        return;
+      }
+      setScheduler(json.data);
+      setSchedulerError(null);
+    } catch (err) {
+      setSchedulerError(err instanceof Error ? err.message : "Network error");
+    }
+  }
+
+  useEffect(() => {
+    loadScheduler();
+  }, []);
 
   async function handleMorningSync() {
     setMorningResult(null);
@@ -29,6 +89,7 @@ export default function CronJobPage() {
       });
     } finally {
       setMorningLoading(false);
+      loadScheduler();
     }
   }
 
@@ -53,6 +114,32 @@ export default function CronJobPage() {
       });
     } finally {
       setEveningLoading(false);
+      loadScheduler();
+    }
+  }
+
+  async function handleEveningCutoff() {
+    setEveningResult(null);
+    setCutoffLoading(true);
+    try {
+      const res = await fetch("/api/cron-job", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "evening-cutoff" }),
+      });
+      const data = await res.json();
+      setEveningResult({
+        ok: data.success === true,
+        message: data.message ?? data.error ?? (res.ok ? "Done" : "Request failed"),
+      });
+    } catch (err) {
+      setEveningResult({
+        ok: false,
+        message: err instanceof Error ? err.message : "Network error",
+      });
+    } finally {
+      setCutoffLoading(false);
+      loadScheduler();
     }
   }
 
@@ -78,8 +165,8 @@ export default function CronJobPage() {
               Morning Status
             </h2>
             <p className="mb-4 text-sm text-slate-600">
-              This manual trigger later will be handled by cron job on schedule
-              time
+              Sends each worker today&apos;s task as a voice message. Runs
+              automatically on schedule; use this to send it now.
             </p>
             <button
               type="button"
@@ -104,17 +191,28 @@ export default function CronJobPage() {
               Evening Status
             </h2>
             <p className="mb-4 text-sm text-slate-600">
-              This manual trigger later will be handled by cron job on schedule
-              time
+              Asks each worker for a status update on today&apos;s task. Workers
+              who have not replied by the cutoff can then be flagged as &quot;No
+              update&quot; in the sheet.
             </p>
-            <button
-              type="button"
-              onClick={handleEveningSync}
-              disabled={eveningLoading}
-              className="rounded-lg bg-emerald-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition hover:bg-emerald-700 disabled:opacity-60 disabled:cursor-not-allowed"
-            >
-              {eveningLoading ? "Sending…" : "Trigger Evening Sync"}
-            </button>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={handleEveningSync}
+                disabled={eveningLoading}
+                className="rounded-lg bg-emerald-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition hover:bg-emerald-700 disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {eveningLoading ? "Sending…" : "Trigger Evening Sync"}
+              </button>
+              <button
+                type="button"
+                onClick={handleEveningCutoff}
+                disabled={cutoffLoading}
+                className="rounded-lg border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-100 disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {cutoffLoading ? "Checking…" : "Flag Missing Updates"}
+              </button>
+            </div>
             {eveningResult && (
               <p
                 className={`mt-3 text-sm ${eveningResult.ok ? "text-emerald-700" : "text-red-600"}`}
@@ -124,6 +222,79 @@ export default function CronJobPage() {
             )}
           </div>
         </div>
+
+        {/* Schedule: next planned runs + history */}
+        <div className="mt-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-3 text-xl font-semibold text-slate-800">Schedule</h2>
+          {schedulerError && <p className="text-sm text-red-600">{schedulerError}</p>}
+          {scheduler && (
+            <>
+              <p className="mb-4 text-sm text-slate-600">
+                Timezone {scheduler.timezone} ·{" "}
+                {scheduler.schedulerEnabled
+                  ? "in-process scheduler on"
+                  : "in-process scheduler off (runs need an external cron calling /api/scheduler/tick)"}
+              </p>
+              {scheduler.upcoming.length > 0 ? (
+                <div className="mb-6">
+                  <p className="text-sm text-slate-800">
+                    Next run:{" "}
+                    <span className="font-semibold">
+                      {scheduler.upcoming[0].type} — {formatInZone(scheduler.upcoming[0].scheduledFor, scheduler.timezone)}
+                    </span>
+                  </p>
+                  <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                    {scheduler.upcoming.slice(1).map((r) => (
+                      <li key={r.key}>
+                        {r.type} — {formatInZone(r.scheduledFor, scheduler.timezone)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="mb-6 text-sm text-slate-500">No runs planned in the next 30 days.</p>
+              )}
+
+              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-slate-500">History</h3>
+              {scheduler.history.length === 0 ? (
+                <p className="text-sm text-slate-500">No runs yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead className="bg-slate-100">
+                      <tr>
+                        {["Started", "Type", "Trigger", "Status", "Message"].map((h) => (
+                          <th key={h} className="border-b border-slate-200 px-3 py-2 text-left font-semibold text-slate-600">
+                            {h}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scheduler.history.map((r) => (
+                        <tr key={r.rowNumber}>
+                          <td className="border-b border-slate-200 px-3 py-1.5 whitespace-nowrap">
+                            {formatInZone(r.startedAt, scheduler.timezone)}
+                          </td>
+                          <td className="border-b border-slate-200 px-3 py-1.5">{r.type}</td>
+                          <td className="border-b border-slate-200 px-3 py-1.5">{r.trigger}</td>
+                          <td
+                            className={`border-b border-slate-200 px-3 py-1.5 ${
+                              r.status === "success" ? "text-emerald-700" : r.status === "failed" ? "text-red-600" : "text-slate-500"
+                            }`}
+                          >
+                            {r.status}
+                          </td>
+                          <td className="border-b border-slate-200 px-3 py-1.5 text-slate-600">{r.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
       </main>
     </div>
   );
@@ -0,0 +1,20 @@
+/**
+ * Media Link Route
+ * ----------------
+ * Permanent link to a photo, document, video note or audio file a worker sent,
+ * as written into the message log. Like /audio, it needs a signed-in visitor
+ * (middleware) and redirects to a short-lived signed URL.
+ */
+
+import { NextRequest } from 'next/server';
+import { MEDIA_PREFIX } from '@/lib/storage';
+import { redirectToSignedUrl } from '@/lib/storage/redirect';
+
+/**
+ * GET /media/<key>
+ * ----------------
+ * Redirects (302) to a short-lived signed URL for the file.
+ */
+export async function GET(request: NextRequest, { params }: { params: { key: string[] } }) {
+  return redirectToSignedUrl(request, params.key, MEDIA_PREFIX);
+}
@@ -21,7 +21,18 @@ export default function Home() {
           >
             Cron Job →
           </Link>
+          <Link
+            href="/workers"
+            className="inline-flex items-center rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700"
+          >
+            Workers →
+          </Link>
         </div>
+        <form action="/api/auth/logout" method="post" className="mt-6">
+          <button type="submit" className="text-sm text-gray-500 underline hover:text-gray-800">
+            Sign out
+          </button>
+        </form>
       </div>
     </main>
   )
@@ -4,22 +4,75 @@ import { useState } from "react";
 
 type SheetState = "idle" | "loading" | "loaded" | "error";
 
-/** Triggers TTS for the given text; returns true on success. */
-async function playTTS(text: string): Promise<boolean> {
-  const t = text.trim();
-  if (!t) return false;
+/** Where the table data came from: a raw sheet range, or the message log (entries or wide grid). */
+type DataSource = "sheet" | "log" | "grid";
+
+/** Column headings for the message log entries view. */
+const LOG_HEADERS = [
+  "Timestamp",
+  "Owner",
+  "Chat ID",
+  "Type",
+  "Text",
+  "Transcript",
+  "English",
+  "Audio URL",
+  "Language",
+  "Confidence",
+  "Duration (s)",
+  "STT request ID",
+  "Review",
+  "Media URL",
+  "Media info",
+  "Latitude",
+  "Longitude",
+  "Message ID",
+  "Edited at",
+];
+
+/** Requests TTS for the given text in one response mode. */
+async function requestTTS(text: string, response: "url" | "base64") {
   const res = await fetch("/api/tts", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ text: t }),
+    body: JSON.stringify({ text, response }),
   });
-  const json = await res.json();
-  if (!json?.success || !json.audioBase64) return false;
-  const audio = new Audio(`data:${json.contentType ?? "audio/mpeg"};base64,${json.audioBase64}`);
+  return res.json();
+}
+
+/**
+ * Triggers TTS for the given text; returns true on success. Asks for a URL to the
+ * cached audio first and falls back to base64 when storage is not configured.
+ */
+async function playTTS(text: string): Promise<boolean> {
+  const t = text.trim();
+  if (!t) return false;
+  let json = await requestTTS(t, "url");
+  if (!json?.success || !json.url) json = await requestTTS(t, "base64");
+  const src = json?.url ?? (json?.audioBase64 ? `data:${json.contentType ?? "audio/mpeg"};base64,${json.audioBase64}` : null);
+  if (!json?.success || !src) return false;
+  const audio = new Audio(src);
   await audio.play();
   return true;
 }
 
+/** Link text for app links to stored files; other URLs are shown as they are. */
+function linkLabel(value: string): string {
+  if (value.includes("/audio/voice/")) return "Play recording";
+  if (value.includes("/media/media/")) return "Open file";
+  return value;
+}
+
+/** Cells holding just a link (e.g. a recording's audio URL) are shown as clickable links. */
+function renderCell(value: string) {
+  if (!/^(https?:\/\/|\/audio\/|\/media\/)\S+$/.test(value)) return value;
+  return (
+    <a href={value} target="_blank" rel="noreferrer" className="text-emerald-700 underline hover:text-emerald-900">
+      {linkLabel(value)}
+    </a>
+  );
+}
+
 function colLetter(index: number): string {
   let letter = "";
   let n = index;
@@ -37,6 +90,9 @@ export default function SheetViewPage() {
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<string[][]>([]);
   const [ttsRowIndex, setTtsRowIndex] = useState<number | null>(null);
+  const [source, setSource] = useState<DataSource>("sheet");
+  /** Rows (indexes into data) whose transcript was flagged for review. */
+  const [reviewRows, setReviewRows] = useState<Set<number>>(new Set());
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -65,6 +121,60 @@ export default function SheetViewPage() {
         return;
       }
       setData(json.data ?? []);
+      setReviewRows(new Set());
+      setSource("sheet");
+      setState("loaded");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+      setState("error");
+    }
+  }
+
+  /** Loads the message log, as raw entries or as the wide grid built from it. */
+  async function loadLog(view: "log" | "grid") {
+    setState("loading");
+    setError(null);
+    try {
+      const res = await fetch(`/api/message-log?view=${view === "log" ? "entries" : "grid"}`);
+      const json = await res.json();
+      if (!json.success) {
+        setError(json.error ?? "Request failed");
+        setState("error");
+        return;
+      }
+      if (view === "log") {
+        const entries: (Record<string, string> & { needsReview?: boolean })[] = json.data ?? [];
+        setData([
+          LOG_HEADERS,
+          ...entries.map((e) => [
+            e.timestamp,
+            e.owner,
+            e.chatId,
+            e.type,
+            e.text,
+            e.transcript,
+            e.english,
+            e.audioUrl,
+            e.language,
+            e.confidence,
+            e.durationSeconds,
+            e.sttRequestId,
+            e.needsReview ? "Needs review" : "",
+            e.mediaUrl,
+            e.mediaInfo,
+            e.latitude,
+            e.longitude,
+            e.messageId,
+            e.editedAt,
+          ]),
+        ]);
+        // +1 for the header row
+        setReviewRows(new Set(entries.flatMap((e, i) => (e.needsReview ? [i + 1] : []))));
+      } else {
+        setData(json.data ?? []);
+        setReviewRows(new Set());
+      }
+      setSource(view);
       setState("loaded");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Network error");
@@ -154,6 +264,25 @@ export default function SheetViewPage() {
               </button>
             </div>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-slate-100 pt-4 text-sm">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Message log</span>
+            <button
+              type="button"
+              onClick={() => loadLog("log")}
+              disabled={state === "loading"}
+              className={`rounded-lg border px-3 py-1.5 font-medium transition disabled:opacity-60 ${source === "log" && state === "loaded" ? "border-emerald-600 bg-emerald-50 text-emerald-700" : "border-slate-300 text-slate-600 hover:bg-slate-100"}`}
+            >
+              Entries
+            </button>
+            <button
+              type="button"
+              onClick={() => loadLog("grid")}
+              disabled={state === "loading"}
+              className={`rounded-lg border px-3 py-1.5 font-medium transition disabled:opacity-60 ${source === "grid" && state === "loaded" ? "border-emerald-600 bg-emerald-50 text-emerald-700" : "border-slate-300 text-slate-600 hover:bg-slate-100"}`}
+            >
+              Grid view
+            </button>
+          </div>
         </form>
 
         {state === "error" && error && (
@@ -189,7 +318,8 @@ export default function SheetViewPage() {
                   {data.map((row, rowIndex) => (
                     <tr
                       key={rowIndex}
-                      className="bg-white transition hover:bg-slate-50/80"
+                      className={`transition ${reviewRows.has(rowIndex) ? "bg-amber-50 hover:bg-amber-100/80" : "bg-white hover:bg-slate-50/80"}`}
+                      title={reviewRows.has(rowIndex) ? "Low STT confidence: check the transcript against the recording" : undefined}
                     >
                       <td className="sticky left-0 z-10 border-b border-r border-slate-200 bg-slate-50 px-2 py-1.5 text-center font-mono text-xs text-slate-500">
                         {rowIndex + 1}
@@ -213,9 +343,9 @@ export default function SheetViewPage() {
                       {colHeaders.map((_, colIndex) => (
                         <td
                           key={colIndex}
-                          className="min-w-[8rem] border-b border-r border-slate-200 px-3 py-1.5 text-slate-800 last:border-r-0"
+                          className="min-w-[8rem] whitespace-pre-line border-b border-r border-slate-200 px-3 py-1.5 text-slate-800 last:border-r-0"
                         >
-                          {row[colIndex] ?? ""}
+                          {renderCell(row[colIndex] ?? "")}
                         </td>
                       ))}
                     </tr>
@@ -226,6 +356,11 @@ export default function SheetViewPage() {
             <div className="border-t border-slate-200 bg-slate-50 px-4 py-2 text-xs text-slate-500">
               {data.length} row{data.length !== 1 ? "s" : ""}, {maxCols} column
               {maxCols !== 1 ? "s" : ""}
+              {reviewRows.size > 0 && (
+                <span className="ml-2 font-medium text-amber-700">
+                  · {reviewRows.size} transcript{reviewRows.size !== 1 ? "s" : ""} need review
+                </span>
+              )}
             </div>
           </div>
         )}
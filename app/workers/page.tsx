@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface Registration {
+  rowNumber: number;
+  owner: string;
+  telegramUserId: string;
+  chatId: string;
+  telegramName: string;
+  registeredAt: string;
+  language: string;
+  speaker: string;
+  pace: string;
+}
+
+interface Language {
+  code: string;
+  name: string;
+}
+
+interface FormState {
+  rowNumber?: number;
+  owner: string;
+  chatId: string;
+  telegramUserId: string;
+  telegramName: string;
+  language: string;
+  speaker: string;
+  pace: string;
+}
+
+const EMPTY_FORM: FormState = {
+  owner: "",
+  chatId: "",
+  telegramUserId: "",
+  telegramName: "",
+  language: "",
+  speaker: "",
+  pace: "",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 bg-slate-50 px-3 py-2 text-sm text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+export default function WorkersPage() {
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [owners, setOwners] = useState<string[]>([]);
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [speakers, setSpeakers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  async function loadRegistry() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/workers");
+      const json = await res.json();
+      if (!json.success) {
+        setError(json.error ?? "Request failed");
+        return;
+      }
+      setRegistrations(json.data.registrations ?? []);
+      setOwners(json.data.owners ?? []);
+      setLanguages(json.data.languages ?? []);
+      setSpeakers(json.data.speakers ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRegistry();
+  }, []);
+
+  async function postAction(body: Record<string, unknown>): Promise<boolean> {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/workers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        setError(json.error ?? "Request failed");
+        return false;
+      }
+      await loadRegistry();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.owner.trim() || !form.chatId.trim()) return;
+    const ok = await postAction({ action: "upsert", ...form });
+    if (ok) setForm(EMPTY_FORM);
+  }
+
+  const registeredOwners = new Set(registrations.map((r) => r.owner.toLowerCase()));
+  const unregistered = owners.filter((o) => !registeredOwners.has(o.toLowerCase()));
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <header className="sticky top-0 z-20 border-b border-slate-200 bg-white shadow-sm">
+        <div className="mx-auto flex max-w-6xl flex-wrap items-center gap-4 px-4 py-3 sm:px-6">
+          <a
+            href="/"
+            className="text-sm font-medium text-slate-500 transition hover:text-slate-800"
+          >
+            ← Back
+          </a>
+          <h1 className="text-lg font-semibold text-slate-800">Workers</h1>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl px-4 py-6 sm:px-6">
+        <p className="mb-4 text-sm text-slate-600">
+          Workers register themselves by sending <code className="rounded bg-slate-100 px-1">/register &lt;Owner name&gt;</code> to
+          the bot. Edit or add entries here when someone changes phone or account. Language, voice and
+          pace apply to the messages the worker receives; they can also set them with{" "}
+          <code className="rounded bg-slate-100 px-1">/language</code>,{" "}
+          <code className="rounded bg-slate-100 px-1">/speaker</code> and{" "}
+          <code className="rounded bg-slate-100 px-1">/pace</code>. Leave blank for the default.
+        </p>
+
+        {/* Add / edit form */}
+        <form
+          onSubmit={handleSubmit}
+          className="mb-6 rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+        >
+          <div className="grid gap-4 sm:grid-cols-[1fr_1fr_1fr_1fr_auto]">
+            <input
+              value={form.owner}
+              onChange={(e) => setForm({ ...form, owner: e.target.value })}
+              placeholder="Owner (as in sheet)"
+              list="owners"
+              className={inputClass}
+            />
+            <datalist id="owners">
+              {owners.map((o) => (
+                <option key={o} value={o} />
+              ))}
+            </datalist>
+            <input
+              value={form.chatId}
+              onChange={(e) => setForm({ ...form, chatId: e.target.value })}
+              placeholder="Chat ID"
+              className={inputClass}
+            />
+            <input
+              value={form.telegramUserId}
+              onChange={(e) => setForm({ ...form, telegramUserId: e.target.value })}
+              placeholder="Telegram user ID"
+              className={inputClass}
+            />
+            <input
+              value={form.telegramName}
+              onChange={(e) => setForm({ ...form, telegramName: e.target.value })}
+              placeholder="Telegram name"
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-lg bg-emerald-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {form.rowNumber ? "Save" : "Add"}
+              </button>
+              {form.rowNumber && (
+                <button
+                  type="button"
+                  onClick={() => setForm(EMPTY_FORM)}
+                  className="rounded-lg border border-slate-300 px-4 py-2.5 text-sm font-medium text-slate-600 transition hover:bg-slate-100"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+            <select
+              value={form.language}
+              onChange={(e) => setForm({ ...form, language: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Default language</option>
+              {languages.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+            {speakers.length > 0 ? (
+              <select
+                value={form.speaker}
+                onChange={(e) => setForm({ ...form, speaker: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Default voice</option>
+                {speakers.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                value={form.speaker}
+                onChange={(e) => setForm({ ...form, speaker: e.target.value })}
+                placeholder="Voice (e.g. ratan)"
+                className={inputClass}
+              />
+            )}
+            <input
+              type="number"
+              min={0.5}
+              max={2}
+              step={0.1}
+              value={form.pace}
+              onChange={(e) => setForm({ ...form, pace: e.target.value })}
+              placeholder="Pace (0.5–2)"
+              className={inputClass}
+            />
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-lg">
+            <table className="w-full border-collapse text-sm">
+              <thead className="bg-slate-100">
+                <tr>
+                  {["Owner", "Chat ID", "Telegram user ID", "Telegram name", "Language", "Voice", "Pace", "Registered at", ""].map((h) => (
+                    <th
+                      key={h}
+                      className="border-b border-slate-200 px-3 py-2 text-left font-semibold text-slate-600"
+                    >
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {registrations.map((r) => (
+                  <tr key={r.rowNumber} className="bg-white transition hover:bg-slate-50/80">
+                    <td className="border-b border-slate-200 px-3 py-1.5">{r.owner}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5 font-mono text-xs">{r.chatId}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5 font-mono text-xs">{r.telegramUserId}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5">{r.telegramName}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5">
+                      {languages.find((l) => l.code === r.language)?.name ?? r.language}
+                    </td>
+                    <td className="border-b border-slate-200 px-3 py-1.5">{r.speaker}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5">{r.pace}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5 text-xs text-slate-500">{r.registeredAt}</td>
+                    <td className="border-b border-slate-200 px-3 py-1.5 text-right">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setForm({
+                            rowNumber: r.rowNumber,
+                            owner: r.owner,
+                            chatId: r.chatId,
+                            telegramUserId: r.telegramUserId,
+                            telegramName: r.telegramName,
+                            language: r.language,
+                            speaker: r.speaker,
+                            pace: r.pace,
+                          })
+                        }
+                        className="mr-2 text-xs font-medium text-emerald-700 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        disabled={saving}
+                        onClick={() => postAction({ action: "remove", rowNumber: r.rowNumber })}
+                        className="text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="border-t border-slate-200 bg-slate-50 px-4 py-2 text-xs text-slate-500">
+              {registrations.length} registered
+              {unregistered.length > 0 && ` · Not registered: ${unregistered.join(", ")}`}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
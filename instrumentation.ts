@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook: runs once when the server starts.
+ * Resumes background jobs left over from the previous process and starts the
+ * in-process sync scheduler (only if SCHEDULER_ENABLED=true).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { resumeJobs } = await import('@/lib/jobs');
+    resumeJobs();
+    const { startScheduler } = await import('@/lib/scheduler');
+    startScheduler();
+  }
+}
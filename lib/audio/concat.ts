@@ -0,0 +1,134 @@
+/**
+ * Audio concatenation (server-only)
+ * ---------------------------------
+ * Joins audio clips of the same format and settings into one file, for long
+ * TTS output synthesised in chunks. Supported:
+ * - mp3: frames are appended; ID3 tags and Xing/Info header frames of the
+ *        clips are dropped so players do not stop after (or mis-time) the first clip.
+ * - wav: PCM data of all clips is put under one RIFF header.
+ */
+
+/** Formats concatAudio can join. */
+export const CONCATENABLE_FORMATS = ['mp3', 'wav'] as const;
+
+/** Bitrates (kbps) for Layer III, by MPEG version: [MPEG-1, MPEG-2/2.5]. */
+const MP3_BITRATES = [
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+
+/** Sample rates (Hz) by version bits: 0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1. */
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+/** Length of an ID3v2 tag at the start of the buffer (0 if none). */
+function id3v2Length(buf: Buffer): number {
+  if (buf.length < 10 || buf.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = ((buf[6] & 0x7f) << 21) | ((buf[7] & 0x7f) << 14) | ((buf[8] & 0x7f) << 7) | (buf[9] & 0x7f);
+  const hasFooter = (buf[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/** Length of the Layer III frame starting at `offset`, or 0 if there is no valid header there. */
+function mp3FrameLength(buf: Buffer, offset: number): number {
+  if (offset + 4 > buf.length || buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) return 0;
+  const versionBits = (buf[offset + 1] >> 3) & 0x03;
+  const layerBits = (buf[offset + 1] >> 1) & 0x03;
+  if (versionBits === 1 || layerBits !== 1) return 0; // reserved version, or not Layer III
+  const bitrateIndex = buf[offset + 2] >> 4;
+  const sampleRateIndex = (buf[offset + 2] >> 2) & 0x03;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return 0;
+  const isMpeg1 = versionBits === 3;
+  const bitrate = MP3_BITRATES[isMpeg1 ? 0 : 1][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+  const padding = (buf[offset + 2] >> 1) & 0x01;
+  return Math.floor(((isMpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding;
+}
+
+/**
+ * MP3 frames only: without the leading ID3v2 tag, a Xing/Info frame or a trailing
+ * ID3v1 tag. Clips stripped this way can be appended to each other, or streamed.
+ */
+export function mp3Frames(buf: Buffer): Buffer {
+  let start = id3v2Length(buf);
+  const firstFrame = mp3FrameLength(buf, start);
+  if (firstFrame > 0) {
+    const frame = buf.subarray(start, start + firstFrame).toString('latin1');
+    if (frame.includes('Xing') || frame.includes('Info')) start += firstFrame;
+  }
+  let end = buf.length;
+  if (end - start >= 128 && buf.toString('latin1', end - 128, end - 125) === 'TAG') end -= 128;
+  return buf.subarray(start, end);
+}
+
+interface WavParts {
+  fmt: Buffer;
+  data: Buffer;
+}
+
+/** Splits a RIFF/WAVE file into its fmt chunk body and PCM data; null if malformed. */
+function parseWav(buf: Buffer): WavParts | null {
+  if (buf.length < 12 || buf.toString('ascii', 0, 4) !== 'RIFF' || buf.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+  let fmt: Buffer | null = null;
+  let offset = 12;
+  while (offset + 8 <= buf.length) {
+    const id = buf.toString('ascii', offset, offset + 4);
+    // Streamed WAVs may carry a placeholder size; the data chunk then runs to the end
+    const declared = buf.readUInt32LE(offset + 4);
+    const size = Math.min(declared, buf.length - offset - 8);
+    const body = buf.subarray(offset + 8, offset + 8 + size);
+    if (id === 'fmt ') fmt = body;
+    if (id === 'data') return fmt ? { fmt, data: body } : null;
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/** A RIFF/WAVE file with the given fmt chunk body and PCM data, with the real sizes in the header. */
+function buildWav(fmt: Buffer, data: Buffer): Buffer {
+  const header = Buffer.alloc(12 + 8 + fmt.length + 8);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(header.length - 8 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(fmt.length, 16);
+  fmt.copy(header, 20);
+  header.write('data', 20 + fmt.length, 'ascii');
+  header.writeUInt32LE(data.length, 24 + fmt.length);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Rewrites a WAV file's header with the real RIFF and data sizes, e.g. for WAV
+ * written to a pipe (ffmpeg leaves placeholder sizes there).
+ *
+ * @returns The WAV with a correct header, or null if it is malformed
+ */
+export function rebuildWavHeader(buf: Buffer): Buffer | null {
+  const parts = parseWav(buf);
+  return parts ? buildWav(parts.fmt, parts.data) : null;
+}
+
+function concatWav(clips: Buffer[]): Buffer | null {
+  const parts = clips.map(parseWav);
+  if (parts.some((p) => !p)) return null;
+  const { fmt } = parts[0] as WavParts;
+  return buildWav(fmt, Buffer.concat(parts.map((p) => (p as WavParts).data)));
+}
+
+/**
+ * Joins clips into one file of the same format.
+ *
+ * @returns The joined audio, or null if the format is not supported or a clip is malformed
+ */
+export function concatAudio(clips: Buffer[], format: string): Buffer | null {
+  if (clips.length === 1) return clips[0];
+  if (format === 'mp3') return Buffer.concat(clips.map(mp3Frames));
+  if (format === 'wav') return concatWav(clips);
+  return null;
+}
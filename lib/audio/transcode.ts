@@ -0,0 +1,143 @@
+/**
+ * Audio transcoding (server-only)
+ * -------------------------------
+ * Converts audio to Opus in an OGG container with ffmpeg (FFMPEG_PATH, default
+ * "ffmpeg" on PATH). Telegram only shows OGG/Opus sent with sendVoice as a real
+ * voice note (waveform, playback speed); it also wants the duration, which is
+ * read back from the OGG pages. Also cuts segments out of long recordings for
+ * chunked STT.
+ */
+
+import { spawn } from 'child_process';
+import { rebuildWavHeader } from '@/lib/audio/concat';
+
+/** output_format value that asks for a Telegram voice note. */
+export const OGG_OPUS_FORMAT = 'ogg_opus';
+
+export const OGG_OPUS_CONTENT_TYPE = 'audio/ogg';
+
+/** Give up on ffmpeg after this long. */
+const TRANSCODE_TIMEOUT_MS = 60_000;
+
+/** Opus granule positions always count 48 kHz samples. */
+const OPUS_GRANULE_RATE = 48000;
+
+export interface OggOpusAudio {
+  audio: Buffer;
+  /** Whole seconds, rounded up (Telegram's duration field); null if it could not be read. */
+  durationSeconds: number | null;
+}
+
+/**
+ * Reads the duration of an OGG/Opus file: granule position of the last page
+ * minus the pre-skip from the OpusHead header.
+ *
+ * @returns Duration in seconds, or null if the data is not OGG/Opus
+ */
+export function oggOpusDurationSeconds(ogg: Buffer): number | null {
+  let preSkip = 0;
+  let lastGranule = -1;
+  let offset = 0;
+  while (offset + 27 <= ogg.length && ogg.toString('latin1', offset, offset + 4) === 'OggS') {
+    const granule = Number(ogg.readBigInt64LE(offset + 6));
+    const segments = ogg[offset + 26];
+    if (offset + 27 + segments > ogg.length) break;
+    let bodyLength = 0;
+    for (let i = 0; i < segments; i++) bodyLength += ogg[offset + 27 + i];
+    const bodyStart = offset + 27 + segments;
+    if (ogg.toString('latin1', bodyStart, bodyStart + 8) === 'OpusHead' && bodyStart + 12 <= ogg.length) {
+      preSkip = ogg.readUInt16LE(bodyStart + 10);
+    }
+    if (granule >= 0) lastGranule = granule;
+    offset = bodyStart + bodyLength;
+  }
+  if (lastGranule < 0) return null;
+  return Math.max(0, lastGranule - preSkip) / OPUS_GRANULE_RATE;
+}
+
+/**
+ * Runs ffmpeg with the input on stdin and returns what it writes to stdout.
+ *
+ * @returns The output, or null if ffmpeg is missing, failed or timed out
+ */
+function runFfmpeg(args: string[], input: Buffer): Promise<Buffer | null> {
+  const ffmpeg = process.env.FFMPEG_PATH?.trim() || 'ffmpeg';
+  return new Promise<Buffer | null>((resolve) => {
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    let failedToStart = false;
+    const child = spawn(ffmpeg, ['-hide_banner', '-loglevel', 'error', ...args], { stdio: ['pipe', 'pipe', 'pipe'] });
+    const timer = setTimeout(() => {
+      console.error('[transcode] ffmpeg timed out');
+      child.kill('SIGKILL');
+    }, TRANSCODE_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+    child.on('error', (err) => {
+      failedToStart = true;
+      clearTimeout(timer);
+      console.error(`[transcode] Could not run ${ffmpeg} (set FFMPEG_PATH):`, err.message);
+      resolve(null);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (failedToStart) return;
+      if (code !== 0) {
+        console.error(`[transcode] ffmpeg exited with ${code}:`, stderr.trim().slice(0, 500));
+        resolve(null);
+        return;
+      }
+      resolve(Buffer.concat(chunks));
+    });
+    // ffmpeg may exit before reading all input (e.g. bad data); the close handler reports it
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Transcodes any ffmpeg-readable audio (mp3, wav, ...) to mono OGG/Opus.
+ *
+ * @returns The OGG/Opus audio and its duration, or null if ffmpeg is missing or failed
+ */
+export async function transcodeToOggOpus(input: Buffer): Promise<OggOpusAudio | null> {
+  const output = await runFfmpeg(
+    [
+      '-i', 'pipe:0',
+      '-vn', '-ac', '1', '-ar', '48000',
+      '-c:a', 'libopus', '-b:a', '32k', '-application', 'voip',
+      '-f', 'ogg', 'pipe:1',
+    ],
+    input
+  );
+
+  if (!output || output.length === 0) return null;
+  const duration = oggOpusDurationSeconds(output);
+  return { audio: output, durationSeconds: duration == null ? null : Math.ceil(duration) };
+}
+
+/**
+ * Cuts a segment out of any ffmpeg-readable audio as 16 kHz mono WAV (what STT
+ * works on best).
+ *
+ * @returns The WAV segment, or null if ffmpeg is missing or failed
+ */
+export async function extractWavSegment(
+  input: Buffer,
+  startSeconds: number,
+  durationSeconds: number
+): Promise<Buffer | null> {
+  const output = await runFfmpeg(
+    [
+      '-i', 'pipe:0',
+      '-ss', startSeconds.toFixed(3), '-t', durationSeconds.toFixed(3),
+      '-vn', '-ac', '1', '-ar', '16000',
+      '-c:a', 'pcm_s16le', '-f', 'wav', 'pipe:1',
+    ],
+    input
+  );
+  if (!output || output.length === 0) return null;
+  // WAV written to a pipe has placeholder sizes; rewrite the header with the real ones
+  return rebuildWavHeader(output);
+}
@@ -0,0 +1,123 @@
+/**
+ * Authentication (server + middleware)
+ * ------------------------------------
+ * Username/password login for the admin pages, with two roles:
+ * - viewer: can look at /sheet-view, /cron-job, /workers and read data.
+ * - admin:  can also trigger syncs and write (sheet updates, registry edits).
+ *
+ * Users come from AUTH_USERS ("name:password:role" comma list). A successful
+ * login gets a session cookie holding the username, role and expiry, signed
+ * with HMAC-SHA256 using AUTH_SECRET. Only Web Crypto is used so this module
+ * also runs in middleware (Edge runtime).
+ */
+
+export type Role = 'admin' | 'viewer';
+
+export interface Session {
+  username: string;
+  role: Role;
+  /** Expiry, ms since epoch. */
+  expiresAt: number;
+}
+
+export const SESSION_COOKIE = 'session';
+
+/** Request header the middleware sets to the signed-in user's role for route handlers. */
+export const ROLE_HEADER = 'x-auth-role';
+
+/** Session lifetime (AUTH_SESSION_HOURS, default 12). */
+export function getSessionMaxAgeSeconds(): number {
+  const hours = Number(process.env.AUTH_SESSION_HOURS);
+  return Math.round((Number.isFinite(hours) && hours > 0 ? hours : 12) * 3600);
+}
+
+/** True when AUTH_SECRET and AUTH_USERS are both set. */
+export function isAuthConfigured(): boolean {
+  return !!process.env.AUTH_SECRET?.trim() && !!process.env.AUTH_USERS?.trim();
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** Compares two strings in time independent of where they differ. */
+function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+async function sign(payload: string): Promise<string> {
+  const secret = process.env.AUTH_SECRET?.trim() ?? '';
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Checks a username and password against AUTH_USERS.
+ *
+ * @returns The user's role, or null if the credentials do not match
+ */
+export function authenticateUser(username: string, password: string): Role | null {
+  const users = (process.env.AUTH_USERS ?? '')
+    .split(',')
+    .map((entry) => entry.trim().split(':'))
+    .filter((parts) => parts.length === 3);
+
+  let role: Role | null = null;
+  // Check every entry so timing does not reveal which usernames exist
+  for (const [name, pass, userRole] of users) {
+    const match = constantTimeEqual(name, username) && constantTimeEqual(pass, password);
+    if (match && (userRole === 'admin' || userRole === 'viewer')) role = userRole;
+  }
+  return role;
+}
+
+/** Creates a signed session cookie value. */
+export async function createSessionToken(username: string, role: Role): Promise<string> {
+  const session: Session = {
+    username,
+    role,
+    expiresAt: Date.now() + getSessionMaxAgeSeconds() * 1000,
+  };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(session)));
+  return `${payload}.${await sign(payload)}`;
+}
+
+/**
+ * Verifies a session cookie value.
+ *
+ * @returns The session, or null if missing, tampered with or expired
+ */
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+  if (!token || !isAuthConfigured()) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  if (!constantTimeEqual(await sign(payload), signature)) return null;
+
+  try {
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    if (session.role !== 'admin' && session.role !== 'viewer') return null;
+    if (typeof session.expiresAt !== 'number' || session.expiresAt < Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
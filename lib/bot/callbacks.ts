@@ -0,0 +1,53 @@
+/**
+ * Inline button callbacks (server-only)
+ * -------------------------------------
+ * Dispatches callback queries (a worker pressing an inline keyboard button) to
+ * the handler registered for the button's action. Buttons carry callback_data
+ * of the form "<action>:<payload>"; Telegram allows 64 bytes.
+ */
+
+import { answerCallbackQuery } from '@/lib/telegram';
+import type { TelegramCallbackQuery } from '@/lib/telegramTypes';
+
+/**
+ * Handles one button press. Returns a short notice to show the worker, or null
+ * for none.
+ */
+export type CallbackHandler = (payload: string, query: TelegramCallbackQuery) => Promise<string | null>;
+
+const handlers = new Map<string, CallbackHandler>();
+
+/** Registers the handler for buttons whose callback_data starts with "<action>:". */
+export function registerCallbackHandler(action: string, handler: CallbackHandler): void {
+  handlers.set(action, handler);
+}
+
+/** callback_data for a button that runs the given action's handler with payload. */
+export function callbackData(action: string, payload: string): string {
+  return `${action}:${payload}`;
+}
+
+/**
+ * Runs the handler for a callback query and always answers it, so the
+ * button's loading spinner stops even when nothing handles it.
+ */
+export async function handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
+  const data = query.data ?? '';
+  const separator = data.indexOf(':');
+  const action = separator >= 0 ? data.slice(0, separator) : data;
+  const handler = handlers.get(action);
+
+  let notice: string | null = null;
+  if (!handler) {
+    console.warn(`[callbacks] No handler for callback data "${data}"`);
+    notice = 'This button is no longer active.';
+  } else {
+    try {
+      notice = await handler(separator >= 0 ? data.slice(separator + 1) : '', query);
+    } catch (err) {
+      console.error(`[callbacks] Handler for "${action}" failed:`, err);
+      notice = 'Something went wrong. Please try again.';
+    }
+  }
+  await answerCallbackQuery(query.id, notice ?? undefined);
+}
@@ -0,0 +1,330 @@
+/**
+ * Bot commands (server-only)
+ * --------------------------
+ * Parses `/command args` messages and runs the matching handler: /help,
+ * /register, /task, /status, /history, /cancel and the voice preference commands.
+ * Commands that need to know who the worker is get their registration from the
+ * framework, so each handler does not look it up again. The same list feeds
+ * setMyCommands, which fills Telegram's command menu.
+ */
+
+import { sendTelegramMessage } from '@/lib/telegram';
+import { telegramRequest } from '@/lib/telegramClient';
+import type { TelegramMessage, TelegramUser } from '@/lib/telegramTypes';
+import { findWorkerByOwner, readWorkerRows } from '@/lib/workers';
+import {
+  findRegistrationByOwner,
+  findRegistrationByUserId,
+  updateVoicePreferences,
+  upsertRegistration,
+  type WorkerRegistration,
+} from '@/lib/workerRegistry';
+import {
+  getAvailableSpeakers,
+  languageName,
+  MAX_PACE,
+  MIN_PACE,
+  parseLanguage,
+  parsePace,
+  parseSpeaker,
+  resolveVoicePreferences,
+  WORKER_LANGUAGES,
+  type VoicePreferences,
+} from '@/lib/voicePreferences';
+import { readLogEntries, type LogEntry } from '@/lib/messageLog';
+import { cancelConversation } from '@/lib/bot/conversations';
+import { NOT_REGISTERED_REPLY, recordWorkerMessage } from '@/lib/bot/recordMessage';
+
+/** What a command handler gets besides its arguments. */
+export interface CommandContext {
+  message: TelegramMessage;
+  from: TelegramUser;
+  chatId: number;
+  spreadsheetId: string;
+}
+
+/** Context for commands that only registered workers can use. */
+interface RegisteredCommandContext extends CommandContext {
+  registration: WorkerRegistration;
+}
+
+type BotCommand =
+  | {
+      name: string;
+      /** Shown in /help and in Telegram's command menu. */
+      description: string;
+      usage?: string;
+      /** Hidden commands work but are not listed (e.g. /start). */
+      hidden?: boolean;
+      needsRegistration: false;
+      run: (args: string, context: CommandContext) => Promise<string>;
+    }
+  | {
+      name: string;
+      description: string;
+      usage?: string;
+      hidden?: boolean;
+      needsRegistration: true;
+      run: (args: string, context: RegisteredCommandContext) => Promise<string>;
+    };
+
+/** Entries /history shows when no number is given, and at most. */
+const DEFAULT_HISTORY_ENTRIES = 5;
+const MAX_HISTORY_ENTRIES = 20;
+
+/**
+ * Parses "/name args" (also "/name@botname args").
+ *
+ * @returns The lowercased command name and its arguments, or null if the text is not a command
+ */
+export function parseCommand(text: string): { name: string; args: string } | null {
+  const match = text.trim().match(/^\/([A-Za-z0-9_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+}
+
+/**
+ * `/register <Owner name>`: links the sender's Telegram user and chat to an
+ * Owner in the main sheet.
+ */
+async function registerCommand(args: string, { from, chatId, spreadsheetId }: CommandContext): Promise<string> {
+  const requestedOwner = args.trim();
+  if (!requestedOwner) {
+    return 'Usage: /register <your name as in the sheet>, e.g. /register Ramesh';
+  }
+
+  const workers = await readWorkerRows(spreadsheetId);
+  if (!workers) {
+    return 'Could not read the sheet. Please try again later.';
+  }
+  const worker = findWorkerByOwner(workers, requestedOwner);
+  if (!worker) {
+    return `No Owner named "${requestedOwner}" in the sheet. Check the spelling with your supervisor.`;
+  }
+
+  const existing = await findRegistrationByOwner(spreadsheetId, worker.owner);
+  if (existing && existing.telegramUserId !== String(from.id)) {
+    return `"${worker.owner}" is already registered to another Telegram account. Ask an admin to change it.`;
+  }
+
+  const telegramName =
+    [from.first_name, from.last_name].filter(Boolean).join(' ') || (from.username ?? '');
+  const ok = await upsertRegistration(spreadsheetId, {
+    owner: worker.owner,
+    telegramUserId: String(from.id),
+    chatId: String(chatId),
+    telegramName,
+  });
+  if (!ok) {
+    return 'Registration failed. Please try again later.';
+  }
+  console.log(`[commands] Registered Telegram user ${from.id} as "${worker.owner}"`);
+  return `Registered as ${worker.owner}. You will get your tasks here.`;
+}
+
+/**
+ * `/language <code>`, `/speaker <name>` and `/pace <0.5-2>`: sets the sender's
+ * preference for the messages they receive. Without an argument it shows the
+ * current value.
+ */
+function preferenceCommand(command: keyof VoicePreferences) {
+  return async (args: string, { registration, spreadsheetId }: RegisteredCommandContext): Promise<string> => {
+    const current = resolveVoicePreferences(registration);
+    const value = args.trim();
+    const languages = WORKER_LANGUAGES.map((l) => `${l.aliases[0]} (${l.name})`).join(', ');
+
+    let update: Partial<VoicePreferences>;
+    let confirmation: string;
+    if (command === 'language') {
+      if (!value) return `Your language is ${languageName(current.languageCode)}. Change it with /language <code>: ${languages}`;
+      const code = parseLanguage(value);
+      if (!code) return `Unsupported language "${value}". Choose one of: ${languages}`;
+      update = { language: code };
+      confirmation = `Language set to ${languageName(code)}.`;
+    } else if (command === 'speaker') {
+      if (!value) return `Your voice is ${current.speaker}. Change it with /speaker <name>, e.g. /speaker ratan`;
+      const speaker = parseSpeaker(value);
+      if (!speaker) {
+        const speakers = getAvailableSpeakers();
+        return speakers.length > 0
+          ? `Unknown voice "${value}". Choose one of: ${speakers.join(', ')}`
+          : `"${value}" is not a valid voice name, e.g. /speaker ratan`;
+      }
+      update = { speaker };
+      confirmation = `Voice set to ${speaker}.`;
+    } else {
+      if (!value) return `Your speech pace is ${current.pace}. Change it with /pace <${MIN_PACE}-${MAX_PACE}>, e.g. /pace 0.8`;
+      const pace = parsePace(value);
+      if (pace == null) return `Pace must be a number from ${MIN_PACE} to ${MAX_PACE}, e.g. /pace 0.8`;
+      update = { pace: String(pace) };
+      confirmation = `Speech pace set to ${pace}.`;
+    }
+
+    if (!(await updateVoicePreferences(spreadsheetId, registration.telegramUserId, update))) {
+      return 'Could not save your preference. Please try again later.';
+    }
+    console.log(`[commands] Updated ${command} for "${registration.owner}"`);
+    return confirmation;
+  };
+}
+
+/** `/task`: today's task from the sheet. */
+async function taskCommand(_args: string, { registration, spreadsheetId }: RegisteredCommandContext): Promise<string> {
+  const workers = await readWorkerRows(spreadsheetId);
+  if (!workers) return 'Could not read the sheet. Please try again later.';
+  const worker = findWorkerByOwner(workers, registration.owner);
+  if (!worker?.task) return 'You have no task in the sheet today. Check with your supervisor.';
+  return worker.status ? `Today's task: ${worker.task}\nStatus: ${worker.status}` : `Today's task: ${worker.task}`;
+}
+
+/** `/status <text>`: logs a status update (counts as the reply to the task). */
+async function statusCommand(
+  args: string,
+  { message, from, chatId, spreadsheetId }: RegisteredCommandContext
+): Promise<string> {
+  if (!args) return 'Usage: /status <how the work is going>, e.g. /status Wall done, plastering tomorrow';
+  const recorded = await recordWorkerMessage(spreadsheetId, {
+    fromId: from.id,
+    chatId,
+    messageDate: message.date,
+    messageId: message.message_id,
+    type: 'status',
+    text: args,
+  });
+  if (recorded === 'not_registered') return NOT_REGISTERED_REPLY;
+  if (recorded === 'failed') return 'Could not save your status update. Please try again later.';
+  return 'Status update recorded. Thank you!';
+}
+
+/** One /history line, e.g. "19-10 09:30 · voice · Wall is done". */
+function historyLine(entry: LogEntry): string {
+  const d = new Date(entry.timestamp);
+  const when = Number.isNaN(d.getTime())
+    ? entry.timestamp
+    : `${String(d.getDate()).padStart(2, '0')}-${String(d.getMonth() + 1).padStart(2, '0')} ` +
+      `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+  const content = entry.transcript || entry.text || (entry.latitude ? `${entry.latitude}, ${entry.longitude}` : '');
+  const short = content.length > 80 ? `${content.slice(0, 77)}...` : content;
+  return [when, entry.type.replace('_', ' '), short].filter(Boolean).join(' · ');
+}
+
+/** `/history [n]`: the sender's last n log entries. */
+async function historyCommand(args: string, { registration, spreadsheetId }: RegisteredCommandContext): Promise<string> {
+  const requested = args ? Number(args) : DEFAULT_HISTORY_ENTRIES;
+  if (!Number.isInteger(requested) || requested < 1) {
+    return `Usage: /history [number of entries, 1-${MAX_HISTORY_ENTRIES}], e.g. /history 10`;
+  }
+  const entries = await readLogEntries(spreadsheetId);
+  if (!entries) return 'Could not read the log. Please try again later.';
+
+  const owner = registration.owner.toLowerCase();
+  const mine = entries.filter((e) => e.owner.toLowerCase() === owner);
+  if (mine.length === 0) return 'Nothing in your history yet.';
+  const recent = mine.slice(-Math.min(requested, MAX_HISTORY_ENTRIES));
+  return [`Your last ${recent.length} entr${recent.length === 1 ? 'y' : 'ies'}:`, ...recent.map(historyLine)].join('\n');
+}
+
+/** `/cancel`: stops the follow-up questions the bot is asking, without saving the answers. */
+async function cancelCommand(_args: string, { chatId }: CommandContext): Promise<string> {
+  return (await cancelConversation(chatId)) ? 'Stopped. Your answers so far were not saved.' : 'Nothing to cancel.';
+}
+
+/** `/help` (and `/start`): what the bot can do. */
+async function helpCommand(): Promise<string> {
+  const lines = COMMANDS.filter((c) => !c.hidden).map((c) => `/${c.usage ?? c.name} – ${c.description}`);
+  return ['Send a voice or text message to report on your work. Commands:', ...lines].join('\n');
+}
+
+const COMMANDS: BotCommand[] = [
+  { name: 'help', description: 'Show this list', needsRegistration: false, run: helpCommand },
+  { name: 'start', description: 'Show this list', hidden: true, needsRegistration: false, run: helpCommand },
+  {
+    name: 'register',
+    usage: 'register <name>',
+    description: 'Link your Telegram account to your name in the sheet',
+    needsRegistration: false,
+    run: registerCommand,
+  },
+  { name: 'task', description: "Today's task", needsRegistration: true, run: taskCommand },
+  {
+    name: 'status',
+    usage: 'status <text>',
+    description: 'Send a status update on your task',
+    needsRegistration: true,
+    run: statusCommand,
+  },
+  {
+    name: 'history',
+    usage: 'history [n]',
+    description: `Your last entries (default ${DEFAULT_HISTORY_ENTRIES})`,
+    needsRegistration: true,
+    run: historyCommand,
+  },
+  {
+    name: 'cancel',
+    description: 'Stop the follow-up questions',
+    needsRegistration: false,
+    run: cancelCommand,
+  },
+  {
+    name: 'language',
+    usage: 'language <code>',
+    description: 'Language of your task messages (hi, mr, gu, ta, en)',
+    needsRegistration: true,
+    run: preferenceCommand('language'),
+  },
+  {
+    name: 'speaker',
+    usage: 'speaker <name>',
+    description: 'Voice of your task messages',
+    needsRegistration: true,
+    run: preferenceCommand('speaker'),
+  },
+  {
+    name: 'pace',
+    usage: `pace <${MIN_PACE}-${MAX_PACE}>`,
+    description: 'Speed of your task messages',
+    needsRegistration: true,
+    run: preferenceCommand('pace'),
+  },
+];
+
+/** Runs one command and returns the reply. */
+async function runCommand(name: string, args: string, context: Omit<CommandContext, 'spreadsheetId'>): Promise<string> {
+  const command = COMMANDS.find((c) => c.name === name);
+  if (!command) return `Unknown command /${name}. Send /help to see what I can do.`;
+
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    console.log(`[commands] GOOGLE_SHEET_ID not set, cannot run /${name}`);
+    return 'This is not available right now.';
+  }
+  if (!command.needsRegistration) return command.run(args, { ...context, spreadsheetId });
+
+  const registration = await findRegistrationByUserId(spreadsheetId, context.from.id);
+  if (!registration) return NOT_REGISTERED_REPLY;
+  return command.run(args, { ...context, spreadsheetId, registration });
+}
+
+/**
+ * Handles a command message and sends the reply. `text` is the message text
+ * with any @mention of the bot removed.
+ */
+export async function handleCommand(message: TelegramMessage, text: string): Promise<void> {
+  const parsed = parseCommand(text);
+  if (!parsed || !message.from) return;
+  const reply = await runCommand(parsed.name, parsed.args, { message, from: message.from, chatId: message.chat.id });
+  await sendTelegramMessage(message.chat.id, reply);
+}
+
+/**
+ * Publishes the command list to Telegram (setMyCommands) so clients show it
+ * in the command menu.
+ *
+ * @returns true if Telegram accepted the list
+ */
+export async function syncBotCommands(): Promise<boolean> {
+  const commands = COMMANDS.filter((c) => !c.hidden).map((c) => ({ command: c.name, description: c.description }));
+  const res = await telegramRequest<boolean>('setMyCommands', { commands });
+  return res.ok;
+}
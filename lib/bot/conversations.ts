@@ -0,0 +1,300 @@
+/**
+ * Conversation flows (server-only)
+ * --------------------------------
+ * Follow-up questions after a vague update. Flows are declared in JSON
+ * (config/conversation-flows.json, bundled at build time, or the file named by
+ * CONVERSATION_FLOWS_FILE, read on every message): what starts a flow, the questions to ask and the worker-row column each answer is
+ * saved to. While a flow runs, the chat's progress is kept in the JSON store,
+ * so it carries across webhook calls and restarts. When the last question is
+ * answered, the answers are written to the worker's row (lib/workers.ts).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import bundledFlows from '@/config/conversation-flows.json';
+import { readJson, writeJson } from '@/lib/jsonStore';
+import { findWorkerByOwner, readWorkerRows, writeWorkerFields } from '@/lib/workers';
+import { findRegistrationByUserId } from '@/lib/workerRegistry';
+import { resolveVoicePreferences, type WorkerLanguageCode } from '@/lib/voicePreferences';
+
+const STORE_NAME = 'conversations';
+
+/** Text in one or more worker languages; a plain string is used for every language. */
+type LocalizedText = string | Partial<Record<WorkerLanguageCode, string>>;
+
+interface FlowQuestion {
+  /** Key of the answer in the conversation state. */
+  field: string;
+  /** Heading of the worker-row column the answer is saved to. */
+  column: string;
+  /** percent: a number 0–100; choice: one of `options` (or its number); text: anything. */
+  type: 'percent' | 'choice' | 'text';
+  prompt: LocalizedText;
+  /** Sent when the answer does not fit the type; defaults to the prompt. */
+  retryPrompt?: LocalizedText;
+  options?: string[];
+}
+
+interface ConversationFlow {
+  id: string;
+  description?: string;
+  trigger: {
+    /** Case-insensitive phrases; the message must contain one of them. */
+    keywords: string[];
+    /** Longer messages are taken as a full update and do not start the flow. */
+    maxWords?: number;
+  };
+  questions: FlowQuestion[];
+  /** Column for the time the flow completed, if any. */
+  completedColumn?: string;
+  completedMessage: LocalizedText;
+  /** Unanswered flows are dropped after this long (default DEFAULT_TIMEOUT_MINUTES). */
+  timeoutMinutes?: number;
+}
+
+/** Progress of one chat through a flow. */
+interface ConversationState {
+  flowId: string;
+  owner: string;
+  languageCode: WorkerLanguageCode;
+  /** Index of the question awaiting an answer. */
+  step: number;
+  /** Invalid answers to the current question so far. */
+  attempts: number;
+  answers: Record<string, string>;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/** chat id -> state. */
+type ConversationStore = Record<string, ConversationState>;
+
+/** Shape of a flows file. */
+interface FlowsFile {
+  flows?: ConversationFlow[];
+}
+
+const DEFAULT_TIMEOUT_MINUTES = 120;
+
+/** After this many invalid answers the question is left blank and the flow moves on. */
+const MAX_ATTEMPTS = 2;
+
+/** Zero digit of each script workers may answer in (Devanagari, Gujarati, Tamil). */
+const DIGIT_ZEROS = [0x0966, 0x0ae6, 0x0be6];
+
+function isValidFlow(flow: ConversationFlow): boolean {
+  return (
+    typeof flow?.id === 'string' &&
+    Array.isArray(flow.trigger?.keywords) &&
+    Array.isArray(flow.questions) &&
+    flow.questions.length > 0 &&
+    flow.questions.every(
+      (q) =>
+        typeof q.field === 'string' &&
+        typeof q.column === 'string' &&
+        ['percent', 'choice', 'text'].includes(q.type) &&
+        (q.type !== 'choice' || (Array.isArray(q.options) && q.options.length > 0))
+    )
+  );
+}
+
+/**
+ * The flows file named by CONVERSATION_FLOWS_FILE, read on every use so edits
+ * apply without a restart; the bundled flows when it is unset or unreadable.
+ */
+async function readFlowsFile(): Promise<FlowsFile> {
+  const configured = process.env.CONVERSATION_FLOWS_FILE?.trim();
+  if (!configured) return bundledFlows as FlowsFile;
+  const file = path.resolve(configured);
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as FlowsFile;
+  } catch (err) {
+    console.error(`[conversations] Could not read CONVERSATION_FLOWS_FILE ${file}, using the bundled flows:`, err);
+    return bundledFlows as FlowsFile;
+  }
+}
+
+/**
+ * Loads the flow definitions.
+ *
+ * @returns Valid flows; invalid ones are logged and left out
+ */
+async function loadFlows(): Promise<ConversationFlow[]> {
+  const { flows } = await readFlowsFile();
+  return (flows ?? []).filter((flow) => {
+    if (isValidFlow(flow)) return true;
+    console.error(`[conversations] Ignoring invalid flow "${flow?.id ?? '?'}"`);
+    return false;
+  });
+}
+
+function localize(text: LocalizedText | undefined, languageCode: WorkerLanguageCode): string {
+  if (typeof text === 'string') return text;
+  return text?.[languageCode] ?? text?.['en-IN'] ?? Object.values(text ?? {})[0] ?? '';
+}
+
+function questionPrompt(question: FlowQuestion, languageCode: WorkerLanguageCode, retry = false): string {
+  const prompt = localize((retry && question.retryPrompt) || question.prompt, languageCode);
+  if (question.type !== 'choice' || !question.options) return prompt;
+  return [prompt, ...question.options.map((option, i) => `${i + 1}. ${option}`)].join('\n');
+}
+
+/** Replaces Devanagari, Gujarati and Tamil digits with ASCII ones. */
+function asciiDigits(text: string): string {
+  return text.replace(/[०-९૦-૯௦-௯]/g, (ch) => {
+    const code = ch.charCodeAt(0);
+    const zero = DIGIT_ZEROS.find((z) => code >= z && code <= z + 9) ?? code;
+    return String(code - zero);
+  });
+}
+
+/**
+ * Parses an answer for a question.
+ *
+ * @returns The value to save, or null if the answer does not fit
+ */
+function parseAnswer(question: FlowQuestion, answer: string): string | null {
+  const text = answer.trim();
+  if (!text) return null;
+  if (question.type === 'percent') {
+    const match = asciiDigits(text).match(/\d+(?:\.\d+)?/);
+    const percent = match ? Number(match[0]) : NaN;
+    return percent >= 0 && percent <= 100 ? String(Math.round(percent)) : null;
+  }
+  if (question.type === 'choice') {
+    const options = question.options ?? [];
+    const index = Number(asciiDigits(text)) - 1;
+    if (Number.isInteger(index) && options[index]) return options[index];
+    return options.find((o) => o.toLowerCase() === text.toLowerCase()) ?? null;
+  }
+  return text;
+}
+
+function matchesTrigger(flow: ConversationFlow, text: string): boolean {
+  const normalized = text.toLowerCase();
+  const words = normalized.split(/\s+/).filter(Boolean).length;
+  if (flow.trigger.maxWords && words > flow.trigger.maxWords) return false;
+  return flow.trigger.keywords.some((k) => normalized.includes(k.toLowerCase()));
+}
+
+function isExpired(state: ConversationState, flow: ConversationFlow | undefined, now: Date): boolean {
+  const timeoutMs = (flow?.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES) * 60_000;
+  return !flow || now.getTime() - new Date(state.updatedAt).getTime() > timeoutMs;
+}
+
+/** Saves the answers to the worker's row. */
+async function saveAnswers(
+  spreadsheetId: string,
+  flow: ConversationFlow,
+  state: ConversationState,
+  now: Date
+): Promise<boolean> {
+  const workers = await readWorkerRows(spreadsheetId);
+  const worker = workers ? findWorkerByOwner(workers, state.owner) : null;
+  if (!worker) {
+    console.error(`[conversations] No sheet row for "${state.owner}", answers not saved`);
+    return false;
+  }
+  const values: Record<string, string> = {};
+  for (const question of flow.questions) values[question.column] = state.answers[question.field] ?? '';
+  if (flow.completedColumn) values[flow.completedColumn] = now.toISOString();
+  const ok = await writeWorkerFields(spreadsheetId, worker, values);
+  if (ok) console.log(`[conversations] Saved "${flow.id}" answers for "${state.owner}"`);
+  return ok;
+}
+
+/**
+ * Takes a message from a registered worker (text, or a voice transcript). If
+ * the chat is in a flow, the message answers the current question; otherwise
+ * it may start a flow.
+ *
+ * @returns The reply to send (next question, closing message or save error), or null if no flow is involved
+ */
+export async function handleConversationMessage(
+  spreadsheetId: string,
+  message: { chatId: number; fromId: number; text: string },
+  now: Date = new Date()
+): Promise<string | null> {
+  const text = message.text.trim();
+  if (!text) return null;
+  const key = String(message.chatId);
+  const store = await readJson<ConversationStore>(STORE_NAME, {});
+  const flows = await loadFlows();
+  let state: ConversationState | undefined = store[key];
+  let flow = state ? flows.find((f) => f.id === state?.flowId) : undefined;
+
+  let expired = false;
+  if (state && isExpired(state, flow, now)) {
+    console.log(`[conversations] Dropping expired "${state.flowId}" conversation in chat ${key}`);
+    delete store[key];
+    state = undefined;
+    expired = true;
+  }
+
+  // Not in a flow: start the first one whose trigger matches
+  if (!state) {
+    flow = flows.find((f) => matchesTrigger(f, text));
+    if (!flow) {
+      if (expired) await writeJson(STORE_NAME, store);
+      return null;
+    }
+    const registration = await findRegistrationByUserId(spreadsheetId, message.fromId);
+    if (!registration) return null;
+    state = {
+      flowId: flow.id,
+      owner: registration.owner,
+      languageCode: resolveVoicePreferences(registration).languageCode,
+      step: 0,
+      attempts: 0,
+      answers: {},
+      startedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    store[key] = state;
+    await writeJson(STORE_NAME, store);
+    console.log(`[conversations] Started "${flow.id}" with "${state.owner}"`);
+    return questionPrompt(flow.questions[0], state.languageCode);
+  }
+
+  // In a flow (flow is set, or the state would have expired): record the answer
+  const activeFlow = flow as ConversationFlow;
+  const question = activeFlow.questions[state.step];
+  const value = parseAnswer(question, text);
+  if (value == null && state.attempts + 1 < MAX_ATTEMPTS) {
+    store[key] = { ...state, attempts: state.attempts + 1, updatedAt: now.toISOString() };
+    await writeJson(STORE_NAME, store);
+    return questionPrompt(question, state.languageCode, true);
+  }
+
+  const answers = { ...state.answers, [question.field]: value ?? '' };
+  const step = state.step + 1;
+  if (step < activeFlow.questions.length) {
+    store[key] = { ...state, step, attempts: 0, answers, updatedAt: now.toISOString() };
+    await writeJson(STORE_NAME, store);
+    return questionPrompt(activeFlow.questions[step], state.languageCode);
+  }
+
+  // Save before ending the flow: if the sheet write fails, the chat stays on the last question
+  if (!(await saveAnswers(spreadsheetId, activeFlow, { ...state, answers }, now))) {
+    store[key] = { ...state, attempts: 0, updatedAt: now.toISOString() };
+    await writeJson(STORE_NAME, store);
+    return 'Could not save your answers. Please send your last answer again.';
+  }
+  delete store[key];
+  await writeJson(STORE_NAME, store);
+  return localize(activeFlow.completedMessage, state.languageCode);
+}
+
+/**
+ * Ends the chat's conversation without saving its answers.
+ *
+ * @returns true if a conversation was running
+ */
+export async function cancelConversation(chatId: number): Promise<boolean> {
+  const store = await readJson<ConversationStore>(STORE_NAME, {});
+  const key = String(chatId);
+  if (!store[key]) return false;
+  delete store[key];
+  await writeJson(STORE_NAME, store);
+  return true;
+}
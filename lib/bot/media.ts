@@ -0,0 +1,154 @@
+/**
+ * Media message job (server-only)
+ * -------------------------------
+ * Background processing for photos, documents, video notes and audio files:
+ * download from Telegram, store under media/ (see lib/storage), record the
+ * caption, link and file details in the message log and confirm to the sender.
+ * Runs on the job queue like the voice job; transient failures throw so the
+ * queue retries, and the final attempt records whatever it has.
+ */
+
+import type { JobContext } from '@/lib/jobQueue';
+import type { MediaMessageType } from '@/lib/messageLog';
+import { uploadMedia } from '@/lib/storage';
+import { downloadTelegramFile, getTelegramFilePath, sendTelegramMessage } from '@/lib/telegram';
+import { findRegistrationByUserId } from '@/lib/workerRegistry';
+import { NOT_REGISTERED_REPLY, recordWorkerMessage } from '@/lib/bot/recordMessage';
+import type { TelegramFile } from '@/lib/telegramTypes';
+
+export const MEDIA_MESSAGE_JOB = 'media-message';
+
+export interface MediaMessageJob {
+  chatId: number;
+  fromId: number;
+  /** Telegram message date (Unix seconds). */
+  messageDate: number;
+  /** Telegram message id, so later edits can find the log entry. */
+  messageId?: number;
+  type: MediaMessageType;
+  file: TelegramFile;
+  caption?: string;
+}
+
+/** Telegram's getFile only serves files up to 20 MB to bots. */
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+/** How each type is named in replies and log notes. */
+const MEDIA_LABELS: Record<MediaMessageType, string> = {
+  photo: 'Photo',
+  document: 'Document',
+  video_note: 'Video note',
+  audio: 'Audio file',
+};
+
+/** Content type and extension to store a file under, from what Telegram tells us. */
+function fileFormat(type: MediaMessageType, file: TelegramFile): { mimeType: string; ext: string } {
+  if (type === 'photo') return { mimeType: 'image/jpeg', ext: 'jpg' };
+  if (type === 'video_note') return { mimeType: 'video/mp4', ext: 'mp4' };
+  const mimeType = file.mime_type ?? (type === 'audio' ? 'audio/mpeg' : 'application/octet-stream');
+  const nameExt = file.file_name?.match(/\.([A-Za-z0-9]{1,8})$/)?.[1]?.toLowerCase();
+  const mimeExt = mimeType === 'audio/mpeg' ? 'mp3' : mimeType.split('/')[1]?.replace(/[^a-z0-9]/g, '');
+  return { mimeType, ext: nameExt ?? (mimeExt || 'bin') };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** File details for the log, e.g. "report.pdf · application/pdf · 120 KB". */
+export function describeMediaFile(type: MediaMessageType, file: TelegramFile): string {
+  const parts: string[] = [];
+  if (file.file_name) parts.push(file.file_name);
+  if (type === 'document' || type === 'audio') parts.push(fileFormat(type, file).mimeType);
+  if (file.width && file.height) parts.push(`${file.width}×${file.height}`);
+  if (file.length) parts.push(`${file.length}px`);
+  if (file.duration != null) parts.push(`${file.duration}s`);
+  if (file.file_size != null) parts.push(formatBytes(file.file_size));
+  return parts.join(' · ');
+}
+
+/** Throws (so the job is retried) unless this is the last attempt. */
+function retryUnlessLast(context: JobContext, reason: string): void {
+  if (!context.isLastAttempt) throw new Error(reason);
+  console.error(`[media] ${reason} (giving up)`);
+}
+
+/**
+ * Downloads and stores the file.
+ *
+ * @returns The app link, or an empty link and a note on what failed
+ */
+async function storeMedia(job: MediaMessageJob, context: JobContext): Promise<{ mediaUrl: string; note: string }> {
+  const { type, file } = job;
+  const label = MEDIA_LABELS[type];
+  if (file.file_size != null && file.file_size > MAX_DOWNLOAD_BYTES) {
+    return { mediaUrl: '', note: `[${label} – too large to download]` };
+  }
+
+  const filePath = await getTelegramFilePath(file.file_id);
+  if (!filePath) {
+    retryUnlessLast(context, 'getFile failed');
+    return { mediaUrl: '', note: `[${label} – getFile failed]` };
+  }
+
+  const buffer = await downloadTelegramFile(filePath);
+  if (!buffer) {
+    retryUnlessLast(context, 'download failed');
+    return { mediaUrl: '', note: `[${label} – download failed]` };
+  }
+
+  const { mimeType, ext } = fileFormat(type, file);
+  // Key is derived from file_unique_id, so a retried upload overwrites the same object
+  const mediaUrl = await uploadMedia(buffer, type, file.file_unique_id ?? file.file_id, mimeType, ext);
+  if (!mediaUrl) {
+    retryUnlessLast(context, 'upload failed');
+    return { mediaUrl: '', note: `[${label} – upload failed]` };
+  }
+  console.log(`[media] ${label} stored at`, mediaUrl);
+  return { mediaUrl, note: '' };
+}
+
+/**
+ * Job handler for MEDIA_MESSAGE_JOB.
+ */
+export async function processMediaMessageJob(job: MediaMessageJob, context: JobContext): Promise<void> {
+  const label = MEDIA_LABELS[job.type];
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    console.log('[media] GOOGLE_SHEET_ID not set, skipping log entry');
+    await storeMedia(job, context);
+    await sendTelegramMessage(job.chatId, `${label} received and stored.`);
+    return;
+  }
+
+  // No point downloading files we cannot attribute to a worker
+  if (!(await findRegistrationByUserId(spreadsheetId, job.fromId))) {
+    await sendTelegramMessage(job.chatId, NOT_REGISTERED_REPLY);
+    return;
+  }
+
+  const { mediaUrl, note } = await storeMedia(job, context);
+  const caption = job.caption?.trim() ?? '';
+  const recorded = await recordWorkerMessage(spreadsheetId, {
+    fromId: job.fromId,
+    chatId: job.chatId,
+    messageDate: job.messageDate,
+    messageId: job.messageId,
+    type: job.type,
+    text: note ? [note, caption].filter(Boolean).join(' ') : caption,
+    mediaUrl,
+    mediaInfo: describeMediaFile(job.type, job.file),
+    durationSeconds: job.file.duration ?? null,
+  });
+  if (recorded === 'failed') {
+    retryUnlessLast(context, 'log append failed');
+    await sendTelegramMessage(job.chatId, `${label} received, but it could not be saved. Please send it again.`);
+    return;
+  }
+  await sendTelegramMessage(
+    job.chatId,
+    mediaUrl ? `${label} received and stored${caption ? ' with your note' : ''}.` : `${label} received, but it could not be stored.`
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * Incoming messages (server-only)
+ * -------------------------------
+ * Handles a worker's message once the update router has decided the bot should
+ * react to it: bot commands (lib/bot/commands.ts), voice and media (queued as
+ * background jobs), locations and text (logged right away). Text may start or
+ * answer a conversation flow (lib/bot/conversations.ts), whose question is
+ * then the reply. Edits of earlier messages update their log entry.
+ */
+
+import { sendTelegramMessage } from '@/lib/telegram';
+import type { TelegramFile, TelegramMessage } from '@/lib/telegramTypes';
+import { handleCommand, parseCommand } from '@/lib/bot/commands';
+import { handleConversationMessage } from '@/lib/bot/conversations';
+import {
+  NOT_REGISTERED_REPLY,
+  recordWorkerMessage,
+  updateWorkerMessage,
+  type RecordResult,
+} from '@/lib/bot/recordMessage';
+import { VOICE_MESSAGE_JOB, type VoiceMessageJob } from '@/lib/bot/voice';
+import { MEDIA_MESSAGE_JOB, type MediaMessageJob } from '@/lib/bot/media';
+import type { MediaMessageType } from '@/lib/messageLog';
+import { enqueueJob } from '@/lib/jobs';
+
+/**
+ * The file in a message for each media type we store, if the message has one.
+ * Photos come in several sizes; the largest is last.
+ */
+function findMediaFile(message: TelegramMessage): { type: MediaMessageType; file: TelegramFile } | null {
+  if (message.photo && message.photo.length > 0) {
+    return { type: 'photo', file: message.photo[message.photo.length - 1] };
+  }
+  for (const type of ['document', 'video_note', 'audio'] as const) {
+    const file = message[type];
+    if (file?.file_id) return { type, file };
+  }
+  return null;
+}
+
+/** Location details for the log, e.g. "±15 m, live". */
+function describeLocation(location: NonNullable<TelegramMessage['location']>): string {
+  return [
+    location.horizontal_accuracy != null ? `±${Math.round(location.horizontal_accuracy)} m` : '',
+    location.live_period != null ? 'live' : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Handles a new message from a worker. `text` is the message text (or media
+ * caption) with any @mention of the bot removed (see lib/bot/updateRouter.ts).
+ */
+export async function handleMessage(message: TelegramMessage, text: string): Promise<void> {
+  const chatId = message.chat.id;
+  const from = message.from;
+  const messageDate = message.date; // Unix seconds
+  const messageId = message.message_id;
+  const voice = message.voice;
+  if (!from?.id) {
+    console.log('[messages] Message without a sender, ignoring');
+    return;
+  }
+
+  // /command args: answered by the command router, nothing else to record
+  if (message.text != null && parseCommand(text)) {
+    await handleCommand(message, text);
+    return;
+  }
+
+  // Voice: download, storage upload and STT are slow, so acknowledge now and process on the job queue
+  if (voice?.file_id) {
+    const job: VoiceMessageJob = {
+      chatId,
+      fromId: from.id,
+      messageDate,
+      messageId,
+      voice: {
+        file_id: voice.file_id,
+        file_unique_id: voice.file_unique_id,
+        mime_type: voice.mime_type,
+        duration: voice.duration,
+      },
+    };
+    await enqueueJob(VOICE_MESSAGE_JOB, job);
+    console.log('[messages] Voice message queued for processing');
+    return;
+  }
+
+  // Photos, documents, video notes and audio files: stored on the job queue like voice
+  const media = findMediaFile(message);
+  if (media) {
+    const job: MediaMessageJob = {
+      chatId,
+      fromId: from.id,
+      messageDate,
+      messageId,
+      type: media.type,
+      file: media.file,
+      caption: message.caption,
+    };
+    await enqueueJob(MEDIA_MESSAGE_JOB, job);
+    console.log(`[messages] ${media.type} message queued for processing`);
+    return;
+  }
+
+  // Append to the message log under the sender's registered Owner
+  const location = message.location;
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  let recorded: RecordResult | null = null;
+  if (!spreadsheetId) {
+    console.log('[messages] GOOGLE_SHEET_ID not set, skipping log entry');
+  } else if (location) {
+    recorded = await recordWorkerMessage(spreadsheetId, {
+      fromId: from.id,
+      chatId,
+      messageDate,
+      messageId,
+      type: 'location',
+      latitude: location.latitude,
+      longitude: location.longitude,
+      mediaInfo: describeLocation(location),
+    });
+  } else {
+    recorded = await recordWorkerMessage(spreadsheetId, {
+      fromId: from.id,
+      chatId,
+      messageDate,
+      messageId,
+      type: 'text',
+      text,
+    });
+  }
+
+  if (recorded === 'not_registered') {
+    await sendTelegramMessage(chatId, NOT_REGISTERED_REPLY);
+    return;
+  }
+  if (recorded === 'failed') {
+    await sendTelegramMessage(chatId, 'Your message could not be saved. Please send it again.');
+    return;
+  }
+  const flowReply =
+    spreadsheetId && !location ? await handleConversationMessage(spreadsheetId, { chatId, fromId: from.id, text }) : null;
+  const replyText =
+    flowReply ?? (location ? 'Location received.' : text ? 'Message received. Send /help to see what I can do.' : null);
+  if (replyText) {
+    await sendTelegramMessage(chatId, replyText);
+  } else {
+    console.log('[messages] No text, voice, media or location in message');
+  }
+}
+
+/**
+ * Handles an edit of an earlier message: new text or caption, or a moved live
+ * location. The bot does not reply to edits.
+ */
+export async function handleEditedMessage(message: TelegramMessage, text: string): Promise<void> {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    console.log('[messages] GOOGLE_SHEET_ID not set, ignoring edit');
+    return;
+  }
+  const hasText = message.text != null || message.caption != null;
+  await updateWorkerMessage(spreadsheetId, {
+    chatId: message.chat.id,
+    messageId: message.message_id,
+    editDate: message.edit_date ?? message.date,
+    text: hasText ? text : undefined,
+    latitude: message.location?.latitude,
+    longitude: message.location?.longitude,
+  });
+}
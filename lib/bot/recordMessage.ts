@@ -0,0 +1,174 @@
+/**
+ * Recording worker messages (server-only)
+ * ---------------------------------------
+ * Appends an incoming Telegram message (text, voice transcript + audio link and
+ * STT details, media link and metadata, or location) to the message log under
+ * the sender's registered Owner, with an English translation for supervisors,
+ * and counts it as the evening status update when one is awaited. Shared by the
+ * webhook route and the background voice and media jobs.
+ */
+
+import { findRegistrationByUserId } from '@/lib/workerRegistry';
+import { markDeliveryReply } from '@/lib/deliveries';
+import {
+  appendLogEntry,
+  getReviewConfidenceThreshold,
+  updateLogEntry,
+  type IncomingMessageType,
+} from '@/lib/messageLog';
+import { translateText } from '@/lib/sarvam';
+
+/** Short timeout so a slow translation does not hold up the webhook reply. */
+const TRANSLATION_REQUEST = { timeoutMs: 10_000, maxRetries: 1 };
+
+/** Reply sent to senders who are not in the worker registry yet. */
+export const NOT_REGISTERED_REPLY =
+  'You are not registered yet. Send /register <your name as in the sheet>, e.g. /register Ramesh';
+
+/**
+ * Outcome of recording a message:
+ * - recorded:       appended to the log
+ * - not_registered: the sender is not in the worker registry; nothing recorded
+ * - failed:         the log could not be written (worth retrying)
+ */
+export type RecordResult = 'recorded' | 'not_registered' | 'failed';
+
+/** An incoming message as it should be logged. */
+export interface WorkerMessage {
+  /** Telegram user id of the sender. */
+  fromId: number;
+  chatId: number;
+  /** Telegram message date (Unix seconds). */
+  messageDate: number;
+  /** Telegram message id; lets an edit of the message update its log entry. */
+  messageId?: number;
+  type: IncomingMessageType;
+  /** Message text, or the caption of a photo/document/etc. */
+  text?: string;
+  transcript?: string;
+  audioUrl?: string;
+  /** Language detected by STT (BCP-47). */
+  language?: string | null;
+  /** STT language confidence, 0–1. */
+  confidence?: number | null;
+  durationSeconds?: number | null;
+  sttRequestId?: string | null;
+  mediaUrl?: string;
+  mediaInfo?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** English translation of a message. */
+interface EnglishTranslation {
+  /** Empty when the message is already English or could not be translated. */
+  english: string;
+  /** Language detected by the translation, when known. */
+  sourceLanguageCode: string | null;
+}
+
+/**
+ * Translates message text to English. Already-English messages (per STT or
+ * translation) are not repeated.
+ */
+async function translateToEnglish(text: string, languageCode?: string | null): Promise<EnglishTranslation> {
+  if (!text || languageCode?.startsWith('en')) return { english: '', sourceLanguageCode: languageCode ?? null };
+  const result = await translateText(text, 'en-IN', {
+    ...TRANSLATION_REQUEST,
+    // STT reports "unknown" when it could not tell; let translation detect it then
+    sourceLanguageCode: languageCode && languageCode !== 'unknown' ? languageCode : undefined,
+  });
+  if (!result.ok) {
+    console.warn('[recordMessage] English translation failed:', result.error.message);
+    return { english: '', sourceLanguageCode: languageCode ?? null };
+  }
+  const { translatedText, sourceLanguageCode } = result.data;
+  const isEnglish = sourceLanguageCode?.startsWith('en') || translatedText === text;
+  return { english: isEnglish ? '' : translatedText, sourceLanguageCode: sourceLanguageCode ?? languageCode ?? null };
+}
+
+/**
+ * Records a message from a Telegram user under their registered Owner.
+ */
+export async function recordWorkerMessage(spreadsheetId: string, message: WorkerMessage): Promise<RecordResult> {
+  const registration = await findRegistrationByUserId(spreadsheetId, message.fromId);
+  if (!registration) {
+    console.log(`[recordMessage] Telegram user ${message.fromId} is not registered, skipping log entry`);
+    return 'not_registered';
+  }
+
+  const receivedAt = new Date(message.messageDate * 1000);
+  const text = (message.text ?? '').trim();
+  const translation = await translateToEnglish(message.type === 'voice' ? message.transcript ?? '' : text, message.language);
+  const needsReview =
+    !!message.transcript && message.confidence != null && message.confidence < getReviewConfidenceThreshold();
+  const ok = await appendLogEntry(spreadsheetId, {
+    timestamp: receivedAt.toISOString(),
+    owner: registration.owner,
+    chatId: String(message.chatId),
+    type: message.type,
+    text,
+    transcript: message.transcript ?? '',
+    english: translation.english,
+    audioUrl: message.audioUrl ?? '',
+    language: translation.sourceLanguageCode ?? '',
+    confidence: message.confidence != null ? String(message.confidence) : '',
+    durationSeconds: message.durationSeconds != null ? String(message.durationSeconds) : '',
+    sttRequestId: message.sttRequestId ?? '',
+    needsReview,
+    mediaUrl: message.mediaUrl ?? '',
+    mediaInfo: message.mediaInfo ?? '',
+    latitude: message.latitude != null ? String(message.latitude) : '',
+    longitude: message.longitude != null ? String(message.longitude) : '',
+    messageId: message.messageId != null ? String(message.messageId) : '',
+  });
+  if (ok) {
+    console.log(
+      `[recordMessage] Logged ${message.type} message from "${registration.owner}"`,
+      needsReview ? '(low STT confidence, flagged for review)' : ''
+    );
+  } else {
+    console.error(`[recordMessage] Could not log ${message.type} message from "${registration.owner}"`);
+  }
+
+  // Counts as the reply to today's task or evening prompt if one is awaiting it
+  await markDeliveryReply(spreadsheetId, registration.owner, receivedAt);
+  return ok ? 'recorded' : 'failed';
+}
+
+/** A worker's edit of a message they sent earlier. */
+export interface WorkerMessageEdit {
+  chatId: number;
+  messageId: number;
+  /** Telegram edit date (Unix seconds). */
+  editDate: number;
+  /** New text, or new caption for media. */
+  text?: string;
+  /** New position, for live locations. */
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Updates the log entry of an edited message (text or caption, English
+ * translation, location) and stamps it with the edit time.
+ *
+ * @returns false if the original message is not in the log
+ */
+export async function updateWorkerMessage(spreadsheetId: string, edit: WorkerMessageEdit): Promise<boolean> {
+  const text = edit.text?.trim();
+  const translation = text != null ? await translateToEnglish(text) : null;
+  const updated = await updateLogEntry(spreadsheetId, String(edit.chatId), String(edit.messageId), {
+    editedAt: new Date(edit.editDate * 1000).toISOString(),
+    ...(text != null ? { text, english: translation?.english ?? '' } : {}),
+    ...(edit.latitude != null && edit.longitude != null
+      ? { latitude: String(edit.latitude), longitude: String(edit.longitude) }
+      : {}),
+  });
+  if (!updated) {
+    console.log(`[recordMessage] No log entry for edited message ${edit.messageId} in chat ${edit.chatId}`);
+    return false;
+  }
+  console.log(`[recordMessage] Updated edited ${updated.type} message from "${updated.owner}"`);
+  return true;
+}
@@ -0,0 +1,122 @@
+/**
+ * Task status buttons (server-only)
+ * ---------------------------------
+ * The inline keyboard under every task message the syncs send (Acknowledged,
+ * Done, Blocked, Need help) and the callback handler for it. A press writes
+ * the status and time into the worker's row of the main sheet, is logged as a
+ * status update, and marks the chosen button so the worker sees their choice.
+ * Buttons carry the local date (SYNC_TIMEZONE) the task was sent, so a press on
+ * an old message does not overwrite the status of a newer task.
+ */
+
+import { editTelegramReplyMarkup, type InlineKeyboardMarkup } from '@/lib/telegram';
+import type { TelegramCallbackQuery } from '@/lib/telegramTypes';
+import { findWorkerByOwner, readWorkerRows, writeWorkerStatus } from '@/lib/workers';
+import { findRegistrationByUserId } from '@/lib/workerRegistry';
+import { resolveVoicePreferences, type WorkerLanguageCode } from '@/lib/voicePreferences';
+import { localSyncDate } from '@/lib/schedule';
+import { callbackData } from '@/lib/bot/callbacks';
+import { NOT_REGISTERED_REPLY, recordWorkerMessage } from '@/lib/bot/recordMessage';
+
+/** callback_data action for the task status buttons. */
+export const TASK_STATUS_ACTION = 'task';
+
+/** Status keys as carried in callback_data, with the value written to the sheet. */
+const TASK_STATUSES = {
+  ack: 'Acknowledged',
+  done: 'Done',
+  blocked: 'Blocked',
+  help: 'Need help',
+} as const;
+
+type TaskStatusKey = keyof typeof TASK_STATUSES;
+
+/** Button labels per language. */
+const BUTTON_LABELS: Record<WorkerLanguageCode, Record<TaskStatusKey, string>> = {
+  'hi-IN': { ack: '👍 समझ गया', done: '✅ हो गया', blocked: '⛔ रुका हुआ', help: '🙋 मदद चाहिए' },
+  'mr-IN': { ack: '👍 समजले', done: '✅ झाले', blocked: '⛔ अडकले', help: '🙋 मदत हवी' },
+  'gu-IN': { ack: '👍 સમજાઈ ગયું', done: '✅ થઈ ગયું', blocked: '⛔ અટક્યું', help: '🙋 મદદ જોઈએ' },
+  'ta-IN': { ack: '👍 புரிந்தது', done: '✅ முடிந்தது', blocked: '⛔ தடை', help: '🙋 உதவி தேவை' },
+  'en-IN': { ack: '👍 Acknowledged', done: '✅ Done', blocked: '⛔ Blocked', help: '🙋 Need help' },
+};
+
+/** Marks the chosen button. */
+const SELECTED_MARK = '✔';
+
+function isTaskStatusKey(value: string): value is TaskStatusKey {
+  return Object.prototype.hasOwnProperty.call(TASK_STATUSES, value);
+}
+
+/**
+ * Inline keyboard (reply_markup) for a task message sent on `sentDate`
+ * (YYYY-MM-DD), two buttons per row. `selected` marks the worker's choice.
+ */
+export function taskStatusKeyboard(
+  languageCode: WorkerLanguageCode,
+  sentDate: string,
+  selected?: TaskStatusKey
+): InlineKeyboardMarkup {
+  const labels = BUTTON_LABELS[languageCode];
+  const buttons = (Object.keys(TASK_STATUSES) as TaskStatusKey[]).map((key) => ({
+    text: key === selected ? `${SELECTED_MARK} ${labels[key]}` : labels[key],
+    callback_data: callbackData(TASK_STATUS_ACTION, `${key}:${sentDate}`),
+  }));
+  return { inline_keyboard: [buttons.slice(0, 2), buttons.slice(2)] };
+}
+
+/**
+ * Callback handler for TASK_STATUS_ACTION; payload is "<status>:<YYYY-MM-DD>".
+ */
+export async function handleTaskStatusCallback(payload: string, query: TelegramCallbackQuery): Promise<string | null> {
+  const [key, sentDate = ''] = payload.split(':');
+  if (!isTaskStatusKey(key)) {
+    console.warn(`[taskStatus] Unknown status "${key}"`);
+    return 'This button is no longer active.';
+  }
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    console.log('[taskStatus] GOOGLE_SHEET_ID not set, cannot record status');
+    return 'This is not available right now.';
+  }
+
+  const registration = await findRegistrationByUserId(spreadsheetId, query.from.id);
+  if (!registration) return NOT_REGISTERED_REPLY;
+
+  const now = new Date();
+  if (sentDate !== localSyncDate(now)) {
+    return 'This task is from an earlier day. Use the buttons under your latest task.';
+  }
+
+  const workers = await readWorkerRows(spreadsheetId);
+  const worker = workers ? findWorkerByOwner(workers, registration.owner) : null;
+  if (!worker) {
+    console.warn(`[taskStatus] No sheet row for "${registration.owner}"`);
+    return 'Could not find your row in the sheet. Check with your supervisor.';
+  }
+
+  const status = TASK_STATUSES[key];
+  if (!(await writeWorkerStatus(spreadsheetId, worker, status, now))) {
+    return 'Could not save your status. Please try again.';
+  }
+  console.log(`[taskStatus] "${registration.owner}" set task status to ${status}`);
+
+  // Log it like a /status update (English, so no translation); also counts as the reply to the task
+  await recordWorkerMessage(spreadsheetId, {
+    fromId: query.from.id,
+    chatId: query.message?.chat.id ?? Number(registration.chatId),
+    messageDate: Math.floor(now.getTime() / 1000),
+    type: 'status',
+    text: `Task status: ${status}`,
+    language: 'en-IN',
+  });
+
+  const { languageCode } = resolveVoicePreferences(registration);
+  if (query.message) {
+    await editTelegramReplyMarkup(
+      query.message.chat.id,
+      query.message.message_id,
+      taskStatusKeyboard(languageCode, sentDate, key)
+    );
+  }
+  return BUTTON_LABELS[languageCode][key];
+}
@@ -0,0 +1,107 @@
+/**
+ * Telegram update router (server-only)
+ * ------------------------------------
+ * Sends each webhook update to the handler for its kind: new and edited
+ * messages (lib/bot/messages.ts) and inline button presses
+ * (lib/bot/callbacks.ts). Channel posts are acknowledged and ignored. In group
+ * chats the bot only reacts to commands, @mentions and replies to its own
+ * messages, so it does not answer every message in the group. Voice notes,
+ * files and locations cannot mention the bot, so those are taken from any
+ * registered worker in the group.
+ * Button handlers are registered here, before any callback can arrive.
+ */
+
+import { getBotUsername } from '@/lib/telegram';
+import { findRegistrationByUserId } from '@/lib/workerRegistry';
+import {
+  classifyUpdate,
+  type TelegramMessage,
+  type TelegramUpdate,
+} from '@/lib/telegramTypes';
+import { handleCallbackQuery, registerCallbackHandler } from '@/lib/bot/callbacks';
+import { handleEditedMessage, handleMessage } from '@/lib/bot/messages';
+import { handleTaskStatusCallback, TASK_STATUS_ACTION } from '@/lib/bot/taskStatus';
+
+registerCallbackHandler(TASK_STATUS_ACTION, handleTaskStatusCallback);
+
+function isGroupChat(message: TelegramMessage): boolean {
+  return message.chat.type === 'group' || message.chat.type === 'supergroup';
+}
+
+/** Text or caption of a message, whichever it has. */
+function messageText(message: TelegramMessage): string {
+  return message.text ?? message.caption ?? '';
+}
+
+/**
+ * Whether a group message is meant for the bot: a command (for this bot, when
+ * it names one), an @mention, or a reply to one of the bot's messages.
+ */
+function isAddressedToBot(message: TelegramMessage, botUsername: string | null): boolean {
+  const text = messageText(message);
+  const command = text.match(/^\/\w+(?:@(\w+))?/);
+  if (command) return !command[1] || command[1].toLowerCase() === botUsername?.toLowerCase();
+  if (!botUsername) return false;
+  if (text.toLowerCase().includes(`@${botUsername.toLowerCase()}`)) return true;
+  const repliedTo = message.reply_to_message?.from;
+  return !!repliedTo?.is_bot && repliedTo.username?.toLowerCase() === botUsername.toLowerCase();
+}
+
+/** Voice notes, photos, files and locations: what a worker sends without typing. */
+function isMediaMessage(message: TelegramMessage): boolean {
+  return !!(
+    message.voice ||
+    message.photo ||
+    message.document ||
+    message.video_note ||
+    message.audio ||
+    message.location
+  );
+}
+
+/** Whether a group message is media sent by a registered worker. */
+async function isWorkerMedia(message: TelegramMessage): Promise<boolean> {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId || !message.from || !isMediaMessage(message)) return false;
+  return !!(await findRegistrationByUserId(spreadsheetId, message.from.id));
+}
+
+/** Removes @botname from the text (mentions and /command@botname). */
+function stripMention(text: string, botUsername: string | null): string {
+  if (!botUsername) return text.trim();
+  const escaped = botUsername.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`@${escaped}\\b`, 'gi'), '').replace(/\s{2,}/g, ' ').trim();
+}
+
+/**
+ * Routes one update. For messages in groups that are not addressed to the bot
+ * (and are not media from a registered worker) nothing happens.
+ */
+export async function routeUpdate(update: TelegramUpdate): Promise<void> {
+  const typed = classifyUpdate(update);
+  switch (typed.kind) {
+    case 'message':
+    case 'edited_message': {
+      const { message } = typed;
+      const botUsername = await getBotUsername();
+      if (isGroupChat(message) && !isAddressedToBot(message, botUsername) && !(await isWorkerMedia(message))) {
+        console.log(`[updateRouter] Group message in ${message.chat.id} not addressed to the bot, ignoring`);
+        return;
+      }
+      const text = stripMention(messageText(message), botUsername);
+      if (typed.kind === 'message') await handleMessage(message, text);
+      else await handleEditedMessage(message, text);
+      return;
+    }
+    case 'callback_query':
+      await handleCallbackQuery(typed.callbackQuery);
+      return;
+    case 'channel_post':
+    case 'edited_channel_post':
+      console.log(`[updateRouter] Ignoring ${typed.kind} in ${typed.message.chat.id}`);
+      return;
+    case 'unsupported':
+      console.log(`[updateRouter] Ignoring unsupported update ${update.update_id}`);
+      return;
+  }
+}
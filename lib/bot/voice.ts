@@ -0,0 +1,147 @@
+/**
+ * Voice message job (server-only)
+ * -------------------------------
+ * Background processing for an incoming voice message: download it from
+ * Telegram, store it (see lib/storage), transcribe with Sarvam STT, record
+ * transcript, STT details and audio link in the message log and confirm to the sender. Runs on the job queue so the
+ * webhook can acknowledge Telegram immediately; transient failures throw so the
+ * queue retries, and the final attempt records whatever it has.
+ */
+
+import type { JobContext } from '@/lib/jobQueue';
+import { uploadVoice } from '@/lib/storage';
+import { formatTimestampedTranscript, transcribeLong } from '@/lib/sarvam';
+import { oggOpusDurationSeconds } from '@/lib/audio/transcode';
+import { downloadTelegramFile, getTelegramFilePath, sendTelegramMessage } from '@/lib/telegram';
+import { findRegistrationByUserId } from '@/lib/workerRegistry';
+import { handleConversationMessage } from '@/lib/bot/conversations';
+import { NOT_REGISTERED_REPLY, recordWorkerMessage } from '@/lib/bot/recordMessage';
+
+export const VOICE_MESSAGE_JOB = 'voice-message';
+
+export interface VoiceMessageJob {
+  chatId: number;
+  fromId: number;
+  /** Telegram message date (Unix seconds). */
+  messageDate: number;
+  /** Telegram message id, so later edits can find the log entry. */
+  messageId?: number;
+  voice: {
+    file_id: string;
+    file_unique_id?: string;
+    mime_type?: string;
+    /** Length in seconds, as reported by Telegram. */
+    duration?: number;
+  };
+}
+
+/** Throws (so the job is retried) unless this is the last attempt. */
+function retryUnlessLast(context: JobContext, reason: string): void {
+  if (!context.isLastAttempt) throw new Error(reason);
+  console.error(`[voice] ${reason} (giving up)`);
+}
+
+/** What gets logged for a voice message. */
+interface VoiceResult {
+  /** Empty on success; otherwise a note on what failed. */
+  text: string;
+  transcript: string;
+  audioUrl: string;
+  language?: string | null;
+  confidence?: number | null;
+  durationSeconds?: number | null;
+  sttRequestId?: string | null;
+}
+
+/**
+ * Downloads, stores and transcribes a voice message. Missing pieces are left
+ * empty, with a note in `text` when the audio itself could not be fetched or stored.
+ */
+async function processVoice(job: VoiceMessageJob, context: JobContext): Promise<VoiceResult> {
+  const { voice } = job;
+
+  const filePath = await getTelegramFilePath(voice.file_id);
+  if (!filePath) {
+    retryUnlessLast(context, 'getFile failed');
+    return { text: '[Voice message – getFile failed]', transcript: '', audioUrl: '' };
+  }
+
+  const audioBuffer = await downloadTelegramFile(filePath);
+  if (!audioBuffer) {
+    retryUnlessLast(context, 'download failed');
+    return { text: '[Voice message – download failed]', transcript: '', audioUrl: '' };
+  }
+
+  const mimeType = voice.mime_type ?? 'audio/ogg';
+  const ext = mimeType.includes('mpeg') || mimeType.includes('mp3') ? 'mp3' : 'ogg';
+  // Key is derived from file_unique_id, so a retried upload overwrites the same object
+  const audioUrl = await uploadVoice(audioBuffer, voice.file_unique_id ?? voice.file_id, mimeType, ext);
+  if (!audioUrl) retryUnlessLast(context, 'upload failed');
+
+  // Transcribe with Sarvam AI Speech-to-Text (supports Indian languages + English); long
+  // notes are transcribed in segments and logged with a timestamp per segment
+  const durationSeconds = voice.duration ?? (ext === 'ogg' ? oggOpusDurationSeconds(audioBuffer) : null);
+  const stt = await transcribeLong(audioBuffer, durationSeconds, { mimeType, filename: `voice.${ext}` });
+  if (!stt.ok) retryUnlessLast(context, `transcription failed: ${stt.error.message}`);
+  const transcript = !stt.ok
+    ? null
+    : stt.data.segments.length > 1
+      ? formatTimestampedTranscript(stt.data.segments)
+      : stt.data.transcript;
+
+  if (audioUrl) {
+    console.log('[voice] Voice message stored at', audioUrl, transcript ? '' : '(STT failed or returned empty)');
+  }
+  return {
+    text: audioUrl ? '' : '[Audio: upload failed]',
+    transcript: transcript ?? '',
+    audioUrl: audioUrl ?? '',
+    language: stt.ok ? stt.data.languageCode : null,
+    confidence: stt.ok ? stt.data.languageProbability : null,
+    durationSeconds,
+    sttRequestId: stt.ok ? stt.data.requestId : null,
+  };
+}
+
+/**
+ * Job handler for VOICE_MESSAGE_JOB.
+ */
+export async function processVoiceMessageJob(job: VoiceMessageJob, context: JobContext): Promise<void> {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    console.log('[voice] GOOGLE_SHEET_ID not set, skipping log entry');
+    await processVoice(job, context);
+    await sendTelegramMessage(job.chatId, 'Voice message received and stored.');
+    return;
+  }
+
+  // No point downloading and transcribing audio we cannot attribute to a worker
+  if (!(await findRegistrationByUserId(spreadsheetId, job.fromId))) {
+    await sendTelegramMessage(job.chatId, NOT_REGISTERED_REPLY);
+    return;
+  }
+
+  const result = await processVoice(job, context);
+  const recorded = await recordWorkerMessage(spreadsheetId, {
+    fromId: job.fromId,
+    chatId: job.chatId,
+    messageDate: job.messageDate,
+    messageId: job.messageId,
+    type: 'voice',
+    ...result,
+  });
+  if (recorded === 'failed') {
+    retryUnlessLast(context, 'log append failed');
+    await sendTelegramMessage(job.chatId, 'Voice message received, but it could not be saved. Please send it again.');
+    return;
+  }
+  // A transcript can answer (or start) a conversation flow like a text message
+  const flowReply = result.transcript
+    ? await handleConversationMessage(spreadsheetId, {
+        chatId: job.chatId,
+        fromId: job.fromId,
+        text: result.transcript,
+      })
+    : null;
+  await sendTelegramMessage(job.chatId, flowReply ?? 'Voice message received and stored.');
+}
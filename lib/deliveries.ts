@@ -0,0 +1,195 @@
+/**
+ * Sync Deliveries (server-only)
+ * -----------------------------
+ * One record per worker per sync run, kept in its own tab. It tracks who has
+ * responded to the morning task and the evening prompt: the webhook marks
+ * replies, the follow-up engine (lib/followUps.ts) reminds and escalates
+ * everyone still waiting, and the evening cutoff run flags those who never
+ * replied to the evening prompt.
+ */
+
+import {
+  appendTableRow,
+  findFirstRowFrom,
+  readTable,
+  updateTableRow,
+  type TableRow,
+} from '@/lib/sheetTable';
+import { localSyncDate } from '@/lib/schedule';
+
+/** Tab that holds delivery records (override with SYNC_DELIVERIES_TAB). */
+const DELIVERIES_TAB = process.env.SYNC_DELIVERIES_TAB?.trim() || 'Deliveries';
+
+const DELIVERY_COLUMNS = [
+  'Date',
+  'Sync Type',
+  'Owner',
+  'Chat ID',
+  'Task',
+  'Sent At',
+  'Cutoff At',
+  'Replied At',
+  'Status',
+  'Reminders Sent',
+  'Escalated At',
+  'Message ID',
+] as const;
+
+type DeliveryColumn = (typeof DELIVERY_COLUMNS)[number];
+
+export type SyncType = 'morning' | 'evening';
+
+export type DeliveryStatus = 'awaiting reply' | 'replied' | 'no update';
+
+export interface Delivery {
+  /** 1-based row in the deliveries tab. */
+  rowNumber: number;
+  /** Day of the sync run in the sync timezone (SYNC_TIMEZONE), YYYY-MM-DD. */
+  date: string;
+  syncType: SyncType;
+  owner: string;
+  chatId: string;
+  task: string;
+  /** ISO timestamps; empty when not applicable. */
+  sentAt: string;
+  cutoffAt: string;
+  repliedAt: string;
+  status: DeliveryStatus;
+  /** Telegram message_id of the task or prompt as sent. */
+  messageId: string;
+  /** Follow-up reminders sent so far. */
+  remindersSent: number;
+  /** ISO timestamp the supervisor was told about this delivery; empty if not yet. */
+  escalatedAt: string;
+}
+
+export type DeliveryInput = Omit<Delivery, 'rowNumber'>;
+
+
+function toDelivery(row: TableRow<DeliveryColumn>): Delivery {
+  const v = row.values;
+  return {
+    rowNumber: row.rowNumber,
+    date: v['Date'],
+    syncType: v['Sync Type'] as SyncType,
+    owner: v['Owner'],
+    chatId: v['Chat ID'],
+    task: v['Task'],
+    sentAt: v['Sent At'],
+    cutoffAt: v['Cutoff At'],
+    repliedAt: v['Replied At'],
+    status: v['Status'] as DeliveryStatus,
+    messageId: v['Message ID'],
+    remindersSent: Number(v['Reminders Sent']) || 0,
+    escalatedAt: v['Escalated At'],
+  };
+}
+
+function toRecord(d: DeliveryInput): Record<DeliveryColumn, string> {
+  return {
+    'Date': d.date,
+    'Sync Type': d.syncType,
+    'Owner': d.owner,
+    'Chat ID': d.chatId,
+    'Task': d.task,
+    'Sent At': d.sentAt,
+    'Cutoff At': d.cutoffAt,
+    'Replied At': d.repliedAt,
+    'Status': d.status,
+    'Message ID': d.messageId,
+    'Reminders Sent': d.remindersSent ? String(d.remindersSent) : '',
+    'Escalated At': d.escalatedAt,
+  };
+}
+
+/**
+ * Reads the delivery records of recent sync runs: those dated `sinceDate`
+ * (YYYY-MM-DD, local) or later. Only the Date column of older rows is read,
+ * so the cost does not grow with the history kept in the tab.
+ *
+ * @returns Deliveries in sheet order, or null if the tab could not be read
+ */
+export async function listDeliveries(spreadsheetId: string, sinceDate: string): Promise<Delivery[] | null> {
+  const fromRow = await findFirstRowFrom(spreadsheetId, DELIVERIES_TAB, DELIVERY_COLUMNS, 'Date', sinceDate);
+  if (fromRow == null) return null;
+  const rows = await readTable(spreadsheetId, DELIVERIES_TAB, DELIVERY_COLUMNS, fromRow);
+  return rows ? rows.map(toDelivery).filter((d) => d.date >= sinceDate) : null;
+}
+
+/**
+ * Local date `days` days before `date`; deliveries older than that are past
+ * replying to (the evening cutoff may run past midnight, hence a day's margin).
+ */
+function localDateBefore(date: Date, days: number): string {
+  return localSyncDate(new Date(date.getTime() - days * 24 * 60 * 60_000));
+}
+
+/** Appends a delivery record. */
+export async function recordDelivery(spreadsheetId: string, delivery: DeliveryInput): Promise<boolean> {
+  return appendTableRow(spreadsheetId, DELIVERIES_TAB, DELIVERY_COLUMNS, toRecord(delivery));
+}
+
+/** Overwrites an existing delivery record with new values. */
+export async function updateDelivery(spreadsheetId: string, delivery: Delivery): Promise<boolean> {
+  return updateTableRow(
+    spreadsheetId,
+    DELIVERIES_TAB,
+    DELIVERY_COLUMNS,
+    delivery.rowNumber,
+    toRecord(delivery)
+  );
+}
+
+/**
+ * Whether a message at `repliedAt` answers a delivery awaiting reply: the
+ * evening prompt until its cutoff, the morning task for the rest of that (local) day.
+ */
+function isAnsweredBy(d: Delivery, repliedAt: Date): boolean {
+  if (d.status !== 'awaiting reply' || repliedAt.getTime() < new Date(d.sentAt).getTime()) return false;
+  if (d.syncType === 'evening') return repliedAt.getTime() <= new Date(d.cutoffAt).getTime();
+  return localSyncDate(repliedAt) === d.date;
+}
+
+/**
+ * Called for every incoming message from a registered worker. Marks that
+ * Owner's deliveries that are awaiting a reply (see isAnsweredBy) as replied,
+ * which also stops their follow-up reminders.
+ *
+ * @returns true if a pending delivery was marked replied
+ */
+export async function markDeliveryReply(
+  spreadsheetId: string,
+  owner: string,
+  repliedAt: Date
+): Promise<boolean> {
+  const deliveries = await listDeliveries(spreadsheetId, localDateBefore(repliedAt, 1));
+  if (!deliveries) return false;
+
+  const normalized = owner.trim().toLowerCase();
+  const pending = deliveries.filter((d) => d.owner.toLowerCase() === normalized && isAnsweredBy(d, repliedAt));
+  if (pending.length === 0) return false;
+
+  let ok = true;
+  for (const d of pending) {
+    ok = (await updateDelivery(spreadsheetId, { ...d, status: 'replied', repliedAt: repliedAt.toISOString() })) && ok;
+  }
+  if (ok) console.log(`[deliveries] Reply recorded for "${owner}" (${pending.map((d) => d.syncType).join(', ')})`);
+  return ok;
+}
+
+/**
+ * Evening deliveries still awaiting a reply whose cutoff is at or before `now`.
+ */
+export async function listExpiredEveningDeliveries(
+  spreadsheetId: string,
+  now: Date
+): Promise<Delivery[] | null> {
+  const deliveries = await listDeliveries(spreadsheetId, localDateBefore(now, 1));
+  if (!deliveries) return null;
+  return deliveries.filter(
+    (d) =>
+      d.syncType === 'evening' &&
+      d.status === 'awaiting reply' &&
+      new Date(d.cutoffAt).getTime() <= now.getTime()
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * Follow-ups (server-only)
+ * ------------------------
+ * Chases workers who have not responded to the morning task or evening prompt
+ * (deliveries still "awaiting reply"). Each sync type has its own policy:
+ * remind the worker at the configured minutes after sending, then send the
+ * supervisor chat one summary of everyone still silent. Every reminder and
+ * escalation is recorded on the delivery and in the message log. Runs from
+ * the scheduler (in-process timer or /api/scheduler/tick).
+ *
+ * Env (minutes after the task or prompt was sent):
+ *   FOLLOW_UP_MORNING_REMINDERS  comma list, default 30,90; empty for none
+ *   FOLLOW_UP_MORNING_ESCALATE   default 150; 0 to never escalate
+ *   FOLLOW_UP_EVENING_REMINDERS  comma list, default 45; empty for none
+ *   FOLLOW_UP_EVENING_ESCALATE   default EVENING_REPLY_WINDOW_MINUTES; 0 to never escalate
+ *   SUPERVISOR_CHAT_ID           chat that receives the summaries; unset disables escalation
+ */
+
+import {
+  listDeliveries,
+  updateDelivery,
+  type Delivery,
+  type SyncType,
+} from '@/lib/deliveries';
+import { appendLogEntries, type LogEntryInput } from '@/lib/messageLog';
+import { getEveningReplyWindowMinutes, getScheduleConfig, localSyncDate } from '@/lib/schedule';
+import { sendTelegramMessage } from '@/lib/telegram';
+import { getRegistrationsByOwner } from '@/lib/workerRegistry';
+import { resolveVoicePreferences, type WorkerLanguageCode } from '@/lib/voicePreferences';
+import { taskStatusKeyboard } from '@/lib/bot/taskStatus';
+
+export interface FollowUpPolicy {
+  /** Minutes after sending at which to remind the worker, ascending. */
+  reminderMinutes: number[];
+  /** Minutes after sending at which to tell the supervisor, or null to never escalate. */
+  escalateMinutes: number | null;
+}
+
+export interface FollowUpResult {
+  reminded: number;
+  escalated: number;
+  failed: number;
+}
+
+/** Deliveries older than this are left alone (e.g. from before follow-ups were enabled). */
+const MAX_FOLLOW_UP_AGE_MINUTES = 24 * 60;
+
+/** Reminder wording per language; the status buttons are attached below it. */
+const REMINDER_TEMPLATES: Record<WorkerLanguageCode, (owner: string) => string> = {
+  'hi-IN': (owner) =>
+    `${owner}, आपका जवाब अभी तक नहीं आया। कृपया नीचे बटन दबाकर बताइए या वॉइस/टेक्स्ट मैसेज भेजिए।`,
+  'mr-IN': (owner) =>
+    `${owner}, तुमचे उत्तर अजून आले नाही. कृपया खालील बटण दाबा किंवा व्हॉइस/टेक्स्ट मेसेज पाठवा.`,
+  'gu-IN': (owner) =>
+    `${owner}, તમારો જવાબ હજી આવ્યો નથી. કૃપા કરીને નીચેનું બટન દબાવો અથવા વૉઇસ/ટેક્સ્ટ મેસેજ મોકલો.`,
+  'ta-IN': (owner) =>
+    `${owner}, உங்கள் பதில் இன்னும் வரவில்லை. கீழே உள்ள பொத்தானை அழுத்துங்கள் அல்லது குரல்/உரை செய்தி அனுப்புங்கள்.`,
+  'en-IN': (owner) =>
+    `${owner}, we have not heard back from you yet. Please tap a button below or send a voice or text message.`,
+};
+
+/** Labels for the supervisor summary and log entries. */
+const SYNC_LABELS: Record<SyncType, string> = {
+  morning: 'morning task',
+  evening: 'evening status prompt',
+};
+
+function parseMinutesList(value: string | undefined, fallback: number[]): number[] {
+  if (value == null) return fallback;
+  return value
+    .split(',')
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isFinite(n) && n > 0)
+    .sort((a, b) => a - b);
+}
+
+function parseMinutes(value: string | undefined, fallback: number): number | null {
+  if (value == null || !value.trim()) return fallback;
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+}
+
+/** The follow-up policy for a sync type, from env (see the header). */
+export function getFollowUpPolicy(type: SyncType): FollowUpPolicy {
+  const prefix = `FOLLOW_UP_${type.toUpperCase()}`;
+  const reminderMinutes = parseMinutesList(process.env[`${prefix}_REMINDERS`], type === 'morning' ? [30, 90] : [45]);
+  const escalateMinutes = process.env.SUPERVISOR_CHAT_ID?.trim()
+    ? parseMinutes(process.env[`${prefix}_ESCALATE`], type === 'morning' ? 150 : getEveningReplyWindowMinutes())
+    : null;
+  return {
+    // A reminder at or after the escalation would only repeat what the supervisor is told
+    reminderMinutes: escalateMinutes == null ? reminderMinutes : reminderMinutes.filter((m) => m < escalateMinutes),
+    escalateMinutes,
+  };
+}
+
+/** Local time of an ISO timestamp in the sync timezone, e.g. "09:00". */
+function formatLocalTime(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: getScheduleConfig().timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(d);
+}
+
+/** Supervisor summary for one sync run's silent workers. */
+function escalationSummary(syncType: SyncType, date: string, deliveries: Delivery[]): string {
+  const lines = deliveries.map((d) => {
+    const reminders = d.remindersSent === 1 ? '1 reminder' : `${d.remindersSent} reminders`;
+    return `• ${d.owner} – sent ${formatLocalTime(d.sentAt)}, ${reminders}${d.task ? ` – ${d.task}` : ''}`;
+  });
+  const heading = `No response to the ${SYNC_LABELS[syncType]} (${date}) from ${deliveries.length} worker(s):`;
+  return [heading, ...lines].join('\n');
+}
+
+/**
+ * Sends the reminders and supervisor summaries that are due.
+ *
+ * @returns Counts of what was done, or null if the sheet is not configured or could not be read
+ */
+export async function runFollowUps(now: Date = new Date()): Promise<FollowUpResult | null> {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) return null;
+  // Only deliveries young enough to follow up are read (with a day of margin)
+  const sinceDate = localSyncDate(new Date(now.getTime() - (MAX_FOLLOW_UP_AGE_MINUTES + 24 * 60) * 60_000));
+  const deliveries = await listDeliveries(spreadsheetId, sinceDate);
+  if (!deliveries) return null;
+
+  const result: FollowUpResult = { reminded: 0, escalated: 0, failed: 0 };
+  const logEntries: LogEntryInput[] = [];
+  const runAt = now.toISOString();
+  const toEscalate = new Map<string, Delivery[]>();
+  const log = (delivery: Delivery, type: 'reminder' | 'escalation', text: string) =>
+    logEntries.push({ timestamp: runAt, owner: delivery.owner, chatId: delivery.chatId, type, text });
+  let registrations: Awaited<ReturnType<typeof getRegistrationsByOwner>> | undefined;
+
+  for (const delivery of deliveries) {
+    const elapsedMinutes = (now.getTime() - new Date(delivery.sentAt).getTime()) / 60_000;
+    if (delivery.escalatedAt || !(elapsedMinutes >= 0 && elapsedMinutes <= MAX_FOLLOW_UP_AGE_MINUTES)) continue;
+    // Evening prompts flagged "no update" at the cutoff still go to the supervisor
+    const silent =
+      delivery.status === 'awaiting reply' || (delivery.syncType === 'evening' && delivery.status === 'no update');
+    if (!silent) continue;
+
+    const policy = getFollowUpPolicy(delivery.syncType);
+    if (policy.escalateMinutes != null && elapsedMinutes >= policy.escalateMinutes) {
+      const key = `${delivery.date}:${delivery.syncType}`;
+      toEscalate.set(key, [...(toEscalate.get(key) ?? []), delivery]);
+      continue;
+    }
+
+    // Several reminders may be due after downtime; send one and count them all as sent
+    const dueReminders = policy.reminderMinutes.filter((m) => m <= elapsedMinutes).length;
+    if (delivery.status !== 'awaiting reply' || dueReminders <= delivery.remindersSent) continue;
+
+    registrations ??= await getRegistrationsByOwner(spreadsheetId);
+    const { languageCode } = resolveVoicePreferences(registrations?.get(delivery.owner.toLowerCase()));
+    const sent = await sendTelegramMessage(
+      delivery.chatId,
+      REMINDER_TEMPLATES[languageCode](delivery.owner),
+      taskStatusKeyboard(languageCode, delivery.date)
+    );
+    const label = `Reminder ${dueReminders} for the ${SYNC_LABELS[delivery.syncType]}`;
+    if (sent.ok && (await updateDelivery(spreadsheetId, { ...delivery, remindersSent: dueReminders }))) {
+      result.reminded++;
+      log(delivery, 'reminder', `${label} sent`);
+    } else {
+      result.failed++;
+      log(delivery, 'reminder', `${label} failed`);
+    }
+  }
+
+  const supervisorChatId = process.env.SUPERVISOR_CHAT_ID?.trim();
+  for (const group of Array.from(toEscalate.values())) {
+    const { syncType, date } = group[0];
+    const sent = supervisorChatId
+      ? await sendTelegramMessage(supervisorChatId, escalationSummary(syncType, date, group))
+      : null;
+    if (!sent?.ok) {
+      console.error(`[followUps] Could not notify the supervisor about the ${date} ${syncType} sync`);
+      result.failed += group.length;
+      continue;
+    }
+    for (const delivery of group) {
+      await updateDelivery(spreadsheetId, { ...delivery, escalatedAt: runAt });
+      log(delivery, 'escalation', `Supervisor notified: no response to the ${SYNC_LABELS[syncType]}`);
+    }
+    result.escalated += group.length;
+  }
+
+  if (logEntries.length > 0) await appendLogEntries(spreadsheetId, logEntries);
+  if (result.reminded || result.escalated || result.failed) {
+    console.log(`[followUps] ${result.reminded} reminded, ${result.escalated} escalated, ${result.failed} failed`);
+  }
+  return result;
+}
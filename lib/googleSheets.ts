@@ -143,3 +143,40 @@ export async function appendToSheet(
     return false;
   }
 }
+
+/**
+ * Makes sure a tab (sheet) with the given title exists in the spreadsheet,
+ * creating an empty one if it does not.
+ *
+ * @param spreadsheetId - The ID from the sheet's URL
+ * @param title - Tab name (e.g. "Workers")
+ * @returns true if the tab exists or was created, false otherwise
+ */
+export async function ensureSheetTab(
+  spreadsheetId: string,
+  title: string
+): Promise<boolean> {
+  const sheets = getSheetsClient();
+  if (!sheets) {
+    return false;
+  }
+
+  try {
+    const response = await sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: 'sheets.properties.title',
+    });
+    const exists = (response.data.sheets ?? []).some((s) => s.properties?.title === title);
+    if (exists) return true;
+
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests: [{ addSheet: { properties: { title } } }] },
+    });
+    console.log('[googleSheets] Created tab', title);
+    return true;
+  } catch (err) {
+    console.error('[googleSheets] ensureSheetTab error:', err);
+    return false;
+  }
+}
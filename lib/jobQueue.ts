@@ -0,0 +1,185 @@
+/**
+ * Background job queue (server-only)
+ * ----------------------------------
+ * Runs slow work (e.g. voice download + upload + STT) after the webhook has
+ * already answered Telegram. Jobs run one at a time in this process, are
+ * retried with exponential backoff when the handler throws, and are persisted
+ * in the JSON store so queued work survives a restart (see resumeJobs).
+ *
+ * Work left running after the response only finishes on a long-lived server.
+ * Serverless functions (Vercel) may be frozen or recycled once they have
+ * answered, so there jobs run inline (JOBS_INLINE): enqueueJob waits for the
+ * first attempt, and retries are run by the scheduler tick (runDueJobs).
+ * Retries across invocations need DATA_DIR on storage that outlives them.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJson, writeJson } from '@/lib/jsonStore';
+
+const STORE_NAME = 'jobs';
+
+/** Default number of attempts before a job is given up. */
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** First retry after 5s, then 10s, 20s ... capped at 5 minutes. */
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+export interface Job<P = unknown> {
+  id: string;
+  type: string;
+  payload: P;
+  /** Attempts made so far. */
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time (ms) the next attempt may run. */
+  runAt: number;
+  lastError?: string;
+}
+
+/** Passed to handlers so they can degrade gracefully on the final attempt. */
+export interface JobContext {
+  attempt: number;
+  maxAttempts: number;
+  isLastAttempt: boolean;
+}
+
+/** Throw to have the job retried (until maxAttempts is reached). */
+export type JobHandler<P = unknown> = (payload: P, context: JobContext) => Promise<void>;
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one queue.
+const globalForJobs = globalThis as unknown as {
+  jobHandlers?: Map<string, JobHandler>;
+  jobQueue?: {
+    jobs: Job[];
+    loaded: boolean;
+    running: boolean;
+    timer?: ReturnType<typeof setTimeout>;
+    notPersistedWarned?: boolean;
+  };
+};
+const handlers = (globalForJobs.jobHandlers ??= new Map());
+const queue = (globalForJobs.jobQueue ??= { jobs: [], loaded: false, running: false });
+
+/** Registers the function that processes jobs of a type. */
+export function registerJobHandler<P>(type: string, handler: JobHandler<P>): void {
+  handlers.set(type, handler as JobHandler);
+}
+
+async function ensureLoaded(): Promise<void> {
+  if (queue.loaded) return;
+  const stored = await readJson<Job[]>(STORE_NAME, []);
+  // Keep jobs enqueued before loading finished
+  const known = new Set(queue.jobs.map((j) => j.id));
+  queue.jobs.push(...stored.filter((j) => !known.has(j.id)));
+  queue.loaded = true;
+}
+
+async function persist(): Promise<void> {
+  if (!(await writeJson(STORE_NAME, queue.jobs)) && !queue.notPersistedWarned) {
+    queue.notPersistedWarned = true;
+    console.error('[jobQueue] Job store is not writable; queued jobs and retries are lost if this process stops');
+  }
+}
+
+/**
+ * Whether enqueueJob waits for the job's first attempt (JOBS_INLINE=true|false;
+ * default true on Vercel, false elsewhere).
+ */
+function runsInline(): boolean {
+  const value = process.env.JOBS_INLINE?.trim().toLowerCase();
+  if (value) return value === 'true';
+  return Boolean(process.env.VERCEL);
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/** Runs due jobs one by one, then sleeps until the next retry is due. */
+async function drain(): Promise<void> {
+  if (queue.running) return;
+  queue.running = true;
+  if (queue.timer) {
+    clearTimeout(queue.timer);
+    queue.timer = undefined;
+  }
+
+  try {
+    await ensureLoaded();
+    for (;;) {
+      const now = Date.now();
+      const job = queue.jobs.find((j) => j.runAt <= now);
+      if (!job) break;
+
+      const handler = handlers.get(job.type);
+      job.attempts += 1;
+      try {
+        if (!handler) throw new Error(`No handler registered for job type "${job.type}"`);
+        await handler(job.payload, {
+          attempt: job.attempts,
+          maxAttempts: job.maxAttempts,
+          isLastAttempt: job.attempts >= job.maxAttempts,
+        });
+        queue.jobs = queue.jobs.filter((j) => j.id !== job.id);
+      } catch (err) {
+        job.lastError = err instanceof Error ? err.message : String(err);
+        if (job.attempts >= job.maxAttempts) {
+          console.error(`[jobQueue] ${job.type} job ${job.id} failed after ${job.attempts} attempts:`, job.lastError);
+          queue.jobs = queue.jobs.filter((j) => j.id !== job.id);
+        } else {
+          job.runAt = Date.now() + retryDelay(job.attempts);
+          console.warn(`[jobQueue] ${job.type} job ${job.id} attempt ${job.attempts} failed, retrying:`, job.lastError);
+        }
+      }
+      await persist();
+    }
+  } finally {
+    queue.running = false;
+  }
+
+  const next = queue.jobs.reduce<number | null>((min, j) => (min == null || j.runAt < min ? j.runAt : min), null);
+  if (next != null) {
+    queue.timer = setTimeout(() => void drain(), Math.max(0, next - Date.now()));
+  }
+}
+
+/**
+ * Adds a job and starts processing in the background. Resolves once the job is
+ * persisted, not when it has run; with JOBS_INLINE, once its first attempt is done.
+ */
+export async function enqueueJob<P>(
+  type: string,
+  payload: P,
+  options: { maxAttempts?: number } = {}
+): Promise<string> {
+  const job: Job<P> = {
+    id: randomUUID(),
+    type,
+    payload,
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    runAt: Date.now(),
+  };
+  await ensureLoaded();
+  queue.jobs.push(job as Job);
+  await persist();
+  if (runsInline()) await drain();
+  else void drain();
+  return job.id;
+}
+
+/**
+ * Picks up jobs persisted by a previous process. Called once at server start.
+ */
+export function resumeJobs(): void {
+  void drain();
+}
+
+/**
+ * Runs every job that is due, including retries whose backoff has passed.
+ * For the scheduler tick, where no retry timer survives between invocations.
+ */
+export function runDueJobs(): Promise<void> {
+  return drain();
+}
@@ -0,0 +1,15 @@
+/**
+ * Job registry (server-only)
+ * --------------------------
+ * Registers every background job handler with the queue. Import enqueueJob from
+ * here (not from lib/jobQueue.ts) so handlers are always registered first.
+ */
+
+import { registerJobHandler } from '@/lib/jobQueue';
+import { processVoiceMessageJob, VOICE_MESSAGE_JOB } from '@/lib/bot/voice';
+import { MEDIA_MESSAGE_JOB, processMediaMessageJob } from '@/lib/bot/media';
+
+registerJobHandler(VOICE_MESSAGE_JOB, processVoiceMessageJob);
+registerJobHandler(MEDIA_MESSAGE_JOB, processMediaMessageJob);
+
+export { enqueueJob, resumeJobs, runDueJobs } from '@/lib/jobQueue';
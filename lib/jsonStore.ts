@@ -0,0 +1,63 @@
+/**
+ * JSON file store (server-only)
+ * -----------------------------
+ * Small persistent state the bot needs between requests and across restarts
+ * (processed update ids, queued jobs, conversation state) that does not belong
+ * in the sheet.
+ * Each name maps to one JSON file under DATA_DIR (default ./.data). Writes go
+ * to a temp file and are renamed into place, so a crash never leaves half a file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = path.resolve(process.env.DATA_DIR?.trim() || '.data');
+
+/** Writes per file are chained so they never interleave. */
+const writeChains = new Map<string, Promise<boolean>>();
+
+function filePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Reads a stored value.
+ *
+ * @returns The stored value, or `fallback` if nothing is stored or the file is unreadable
+ */
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[jsonStore] Could not read ${name}:`, err);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Replaces a stored value.
+ *
+ * @returns false if it could not be written (e.g. DATA_DIR is read-only); the
+ *   value then only lives in the caller's memory
+ */
+export async function writeJson<T>(name: string, value: T): Promise<boolean> {
+  const previous = writeChains.get(name) ?? Promise.resolve(true);
+  const next = previous.then(async () => {
+    try {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      const target = filePath(name);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(value), 'utf8');
+      await fs.rename(tmp, target);
+      return true;
+    } catch (err) {
+      console.error(`[jsonStore] Could not write ${name} to ${DATA_DIR}; it is not persisted:`, err);
+      return false;
+    }
+  });
+  writeChains.set(name, next);
+  return next;
+}
@@ -0,0 +1,268 @@
+/**
+ * Message Log (server-only)
+ * -------------------------
+ * Append-only log of everything the bot receives and sends, one row per event
+ * in its own tab. Rows are appended, so the log never runs out of columns or
+ * overwrites earlier entries; the one exception is a worker editing a message,
+ * which updates that message's row in place. The old wide layout (one dated column
+ * per event next to the worker rows) is available as a view built from the log.
+ * Voice entries carry the STT details (language, confidence, duration, request
+ * id); low-confidence transcripts are flagged for review. Incoming messages
+ * also carry an English translation for supervisors.
+ */
+
+import { appendTableRows, readTable, updateTableRow } from '@/lib/sheetTable';
+import type { WorkerRow } from '@/lib/workers';
+
+/** Tab that holds the log (override with MESSAGE_LOG_TAB). */
+const LOG_TAB = process.env.MESSAGE_LOG_TAB?.trim() || 'Log';
+
+/** Cells are read by position, so new columns go at the end to keep existing rows aligned. */
+const LOG_COLUMNS = [
+  'Timestamp',
+  'Owner',
+  'Chat ID',
+  'Message Type',
+  'Text',
+  'Transcript',
+  'Audio URL',
+  'Language',
+  'Confidence',
+  'Duration (s)',
+  'STT Request ID',
+  'Needs Review',
+  'Media URL',
+  'Media Info',
+  'Latitude',
+  'Longitude',
+  'Message ID',
+  'Edited At',
+  'English',
+] as const;
+
+type LogColumn = (typeof LOG_COLUMNS)[number];
+
+/** Value of the Needs Review column for flagged entries. */
+const NEEDS_REVIEW = 'yes';
+
+/**
+ * Transcripts whose language confidence is below this are flagged for review
+ * (STT_REVIEW_CONFIDENCE, 0–1, default 0.7).
+ */
+export function getReviewConfidenceThreshold(): number {
+  const threshold = Number(process.env.STT_REVIEW_CONFIDENCE);
+  return Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : 0.7;
+}
+
+/** Files a worker can send besides voice notes; each is stored and linked from the log. */
+export type MediaMessageType = 'photo' | 'document' | 'video_note' | 'audio';
+
+/** Kinds of message a worker can send; status is a /status command. */
+export type IncomingMessageType = 'text' | 'voice' | 'location' | 'status' | MediaMessageType;
+
+/**
+ * - text / voice / photo / document / video_note / audio / location / status: incoming messages from a worker
+ * - morning_sync / evening_sync: outcome of sending the task / status prompt
+ * - no_update: worker did not reply to the evening prompt before the cutoff
+ * - reminder / escalation: follow-up sent to a silent worker / their supervisor (lib/followUps.ts)
+ */
+export type LogMessageType =
+  | IncomingMessageType
+  | 'morning_sync'
+  | 'evening_sync'
+  | 'no_update'
+  | 'reminder'
+  | 'escalation';
+
+export interface LogEntry {
+  /** ISO timestamp of the event. */
+  timestamp: string;
+  owner: string;
+  chatId: string;
+  type: LogMessageType;
+  /** Message text, or a status line for sync events. */
+  text: string;
+  transcript: string;
+  /** English translation of the text or transcript; empty when it is already English or failed. */
+  english: string;
+  audioUrl: string;
+  /** BCP-47 code, e.g. hi-IN; empty when unknown. */
+  language: string;
+  /** STT language confidence, 0–1; empty when unknown. */
+  confidence: string;
+  /** Length of the recording in seconds; empty when unknown. */
+  durationSeconds: string;
+  /** Sarvam request id of the transcription, for support queries. */
+  sttRequestId: string;
+  /** True when a person should check the transcript. */
+  needsReview: boolean;
+  /** App link to a stored photo, document, video note or audio file. */
+  mediaUrl: string;
+  /** File name, type, size, dimensions or length, as known. */
+  mediaInfo: string;
+  /** Shared location (decimal degrees); empty for other messages. */
+  latitude: string;
+  longitude: string;
+  /** Telegram message id of an incoming message. */
+  messageId: string;
+  /** ISO time the worker last edited the message; empty if never. */
+  editedAt: string;
+}
+
+/** Entry fields callers must give; the rest default to empty. */
+export type LogEntryInput = Pick<LogEntry, 'timestamp' | 'owner' | 'type'> & Partial<LogEntry>;
+
+function toRecord(entry: LogEntryInput): Record<LogColumn, string> {
+  return {
+    'Timestamp': entry.timestamp,
+    'Owner': entry.owner,
+    'Chat ID': entry.chatId ?? '',
+    'Message Type': entry.type,
+    'Text': entry.text ?? '',
+    'Transcript': entry.transcript ?? '',
+    'English': entry.english ?? '',
+    'Audio URL': entry.audioUrl ?? '',
+    'Language': entry.language ?? '',
+    'Confidence': entry.confidence ?? '',
+    'Duration (s)': entry.durationSeconds ?? '',
+    'STT Request ID': entry.sttRequestId ?? '',
+    'Needs Review': entry.needsReview ? NEEDS_REVIEW : '',
+    'Media URL': entry.mediaUrl ?? '',
+    'Media Info': entry.mediaInfo ?? '',
+    'Latitude': entry.latitude ?? '',
+    'Longitude': entry.longitude ?? '',
+    'Message ID': entry.messageId ?? '',
+    'Edited At': entry.editedAt ?? '',
+  };
+}
+
+function fromRecord(v: Record<LogColumn, string>): LogEntry {
+  return {
+    timestamp: v['Timestamp'],
+    owner: v['Owner'],
+    chatId: v['Chat ID'],
+    type: v['Message Type'] as LogMessageType,
+    text: v['Text'],
+    transcript: v['Transcript'],
+    english: v['English'],
+    audioUrl: v['Audio URL'],
+    language: v['Language'],
+    confidence: v['Confidence'],
+    durationSeconds: v['Duration (s)'],
+    sttRequestId: v['STT Request ID'],
+    needsReview: v['Needs Review'].toLowerCase() === NEEDS_REVIEW,
+    mediaUrl: v['Media URL'],
+    mediaInfo: v['Media Info'],
+    latitude: v['Latitude'],
+    longitude: v['Longitude'],
+    messageId: v['Message ID'],
+    editedAt: v['Edited At'],
+  };
+}
+
+/**
+ * Appends entries to the log, in order.
+ */
+export async function appendLogEntries(spreadsheetId: string, entries: LogEntryInput[]): Promise<boolean> {
+  const ok = await appendTableRows(spreadsheetId, LOG_TAB, LOG_COLUMNS, entries.map(toRecord));
+  if (!ok) console.error('[messageLog] Failed to append', entries.length, 'log entries');
+  return ok;
+}
+
+/** Appends one entry to the log. */
+export async function appendLogEntry(spreadsheetId: string, entry: LogEntryInput): Promise<boolean> {
+  return appendLogEntries(spreadsheetId, [entry]);
+}
+
+/**
+ * Reads the whole log in the order it was written.
+ *
+ * @returns Entries, or null if the log tab could not be read
+ */
+export async function readLogEntries(spreadsheetId: string): Promise<LogEntry[] | null> {
+  const rows = await readTable(spreadsheetId, LOG_TAB, LOG_COLUMNS);
+  if (!rows) return null;
+  return rows.map(({ values }) => fromRecord(values));
+}
+
+/**
+ * Applies changes to the logged entry for a Telegram message (the latest one
+ * with that chat and message id).
+ *
+ * @returns The updated entry, or null if there is none or the row could not be written
+ */
+export async function updateLogEntry(
+  spreadsheetId: string,
+  chatId: string,
+  messageId: string,
+  changes: Partial<Omit<LogEntry, 'chatId' | 'messageId'>>
+): Promise<LogEntry | null> {
+  const rows = await readTable(spreadsheetId, LOG_TAB, LOG_COLUMNS);
+  if (!rows) return null;
+  const row = [...rows].reverse().find((r) => r.values['Chat ID'] === chatId && r.values['Message ID'] === messageId);
+  if (!row) return null;
+
+  const updated = { ...fromRecord(row.values), ...changes };
+  if (!(await updateTableRow(spreadsheetId, LOG_TAB, LOG_COLUMNS, row.rowNumber, toRecord(updated)))) {
+    console.error('[messageLog] Failed to update log row', row.rowNumber);
+    return null;
+  }
+  return updated;
+}
+
+/** Format an ISO timestamp as DD-MM-YYYY HH:MM (server local time), as the old grid did. */
+function formatGridDateTime(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  const day = String(d.getDate()).padStart(2, '0');
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const year = d.getFullYear();
+  const hours = String(d.getHours()).padStart(2, '0');
+  const minutes = String(d.getMinutes()).padStart(2, '0');
+  return `${day}-${month}-${year} ${hours}:${minutes}`;
+}
+
+/** What a grid cell shows for an entry. */
+function gridCellText(entry: LogEntry): string {
+  const english = entry.english ? `\nEN: ${entry.english}` : '';
+  if (entry.type === 'voice') {
+    const transcript = (entry.transcript || '[Transcription unavailable]') + english;
+    const flagged = entry.needsReview ? `${transcript}\n[Needs review]` : transcript;
+    return entry.audioUrl ? `${flagged}\nAudio: ${entry.audioUrl}` : flagged;
+  }
+  if (entry.type === 'status') return `[Status] ${entry.text}${english}`;
+  if (entry.type === 'location') {
+    return `[Location] ${entry.latitude}, ${entry.longitude}${entry.mediaInfo ? ` (${entry.mediaInfo})` : ''}`;
+  }
+  if (entry.type === 'photo' || entry.type === 'document' || entry.type === 'video_note' || entry.type === 'audio') {
+    const label = `[${entry.type.replace('_', ' ')}]${entry.text ? ` ${entry.text}${english}` : ''}`;
+    return entry.mediaUrl ? `${label}\nFile: ${entry.mediaUrl}` : label;
+  }
+  return entry.text ? entry.text + english : '(no text)';
+}
+
+/**
+ * Builds the wide grid view: row 1 = headings then one date/time per event,
+ * one row per worker (task, Owner) with that worker's cell for each event.
+ * Entries written together (one sync run) share a timestamp and so a column.
+ */
+export function buildWideGrid(entries: LogEntry[], workers: WorkerRow[]): string[][] {
+  const timestamps = Array.from(new Set(entries.map((e) => e.timestamp))).sort();
+  const columnByTimestamp = new Map(timestamps.map((t, i) => [t, i]));
+
+  const header = ['#', 'Task', 'Owner', ...timestamps.map(formatGridDateTime)];
+  const rows = workers.map((w, i) => {
+    const cells = new Array<string>(timestamps.length).fill('');
+    return { owner: w.owner.toLowerCase(), row: [String(i + 1), w.task, w.owner], cells };
+  });
+  const rowByOwner = new Map(rows.map((r) => [r.owner, r]));
+
+  for (const entry of entries) {
+    const row = rowByOwner.get(entry.owner.toLowerCase());
+    const col = columnByTimestamp.get(entry.timestamp);
+    if (!row || col == null) continue;
+    row.cells[col] = row.cells[col] ? `${row.cells[col]}\n${gridCellText(entry)}` : gridCellText(entry);
+  }
+
+  return [header, ...rows.map((r) => [...r.row, ...r.cells])];
+}
@@ -0,0 +1,57 @@
+/**
+ * Processed Telegram updates (server-only)
+ * ----------------------------------------
+ * Telegram re-delivers an update when our webhook is slow or fails. Each
+ * update_id is claimed before it is handled, so a retry of the same update is
+ * acknowledged without recording it a second time. Ids are kept for longer than
+ * Telegram keeps undelivered updates (24h) and then pruned.
+ */
+
+import { readJson, writeJson } from '@/lib/jsonStore';
+
+const STORE_NAME = 'processed-updates';
+
+/** How long an update_id is remembered. */
+const RETENTION_MS = 48 * 60 * 60 * 1000;
+
+/** update_id -> time it was claimed (ms). Loaded from disk once, on first use. */
+let processed: Promise<Map<number, number>> | null = null;
+
+function load(): Promise<Map<number, number>> {
+  if (!processed) {
+    processed = readJson<Record<string, number>>(STORE_NAME, {}).then(
+      (stored) => new Map(Object.entries(stored).map(([id, at]) => [Number(id), at]))
+    );
+  }
+  return processed;
+}
+
+async function save(map: Map<number, number>): Promise<void> {
+  const cutoff = Date.now() - RETENTION_MS;
+  for (const [id, at] of map) {
+    if (at < cutoff) map.delete(id);
+  }
+  await writeJson(STORE_NAME, Object.fromEntries(map));
+}
+
+/**
+ * Claims an update for processing.
+ *
+ * @returns true the first time an update_id is seen, false for duplicates
+ */
+export async function claimUpdate(updateId: number): Promise<boolean> {
+  const map = await load();
+  if (map.has(updateId)) return false;
+  map.set(updateId, Date.now());
+  await save(map);
+  return true;
+}
+
+/**
+ * Forgets a claim so Telegram's next delivery of the update is processed again.
+ * Used when handling failed before anything was recorded.
+ */
+export async function releaseUpdate(updateId: number): Promise<void> {
+  const map = await load();
+  if (map.delete(updateId)) await save(map);
+}
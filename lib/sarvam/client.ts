@@ -0,0 +1,147 @@
+/**
+ * Sarvam AI client (server-only)
+ * ------------------------------
+ * The one place that talks to api.sarvam.ai: adds the API key, applies a
+ * timeout, retries 429/5xx and network failures with exponential backoff, and
+ * turns every failure into a typed SarvamError instead of a bare null.
+ * Feature modules (tts.ts, stt.ts, translate.ts) build on sarvamRequest.
+ *
+ * Ref: https://docs.sarvam.ai/api-reference-docs
+ */
+
+const SARVAM_API_URL = 'https://api.sarvam.ai';
+
+/** Default per-attempt timeout (SARVAM_TIMEOUT_MS). */
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Default retries after the first attempt (SARVAM_MAX_RETRIES). */
+const DEFAULT_MAX_RETRIES = 2;
+
+/** First backoff delay; doubles on each retry. */
+const BASE_BACKOFF_MS = 500;
+
+/** Longest wait honoured from a Retry-After header. */
+const MAX_BACKOFF_MS = 10_000;
+
+/**
+ * - not_configured:   SARVAM_API_KEY is missing
+ * - invalid_request:  the input was rejected before calling Sarvam (e.g. empty text)
+ * - http:             Sarvam answered with a non-2xx status
+ * - timeout:          no answer within the timeout
+ * - network:          the request could not be sent or read
+ * - invalid_response: 2xx, but the body was not what we expected
+ */
+export type SarvamErrorCode =
+  | 'not_configured'
+  | 'invalid_request'
+  | 'http'
+  | 'timeout'
+  | 'network'
+  | 'invalid_response';
+
+export interface SarvamError {
+  code: SarvamErrorCode;
+  message: string;
+  /** HTTP status from Sarvam, for code "http". */
+  status?: number;
+  /** Whether trying again later may succeed. */
+  retryable: boolean;
+}
+
+/** Result of a Sarvam call: the parsed data, or why it failed. */
+export type SarvamResult<T> = { ok: true; data: T } | { ok: false; error: SarvamError };
+
+export interface SarvamRequestOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Builds a failed result. */
+export function sarvamFailure<T>(code: SarvamErrorCode, message: string, status?: number): SarvamResult<T> {
+  const retryable = code === 'timeout' || code === 'network' || (status != null && (status === 429 || status >= 500));
+  return { ok: false, error: { code, message, status, retryable } };
+}
+
+/** HTTP status an API route should answer with for a Sarvam error. */
+export function httpStatusForSarvamError(error: SarvamError): number {
+  if (error.code === 'not_configured') return 503;
+  if (error.code === 'invalid_request') return 400;
+  if (error.code === 'timeout') return 504;
+  if (error.code === 'http' && error.status != null && error.status < 500) return error.status;
+  return 502;
+}
+
+/** Milliseconds to wait before retry number `retry` (0-based). */
+function backoffMs(retry: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  const delay = BASE_BACKOFF_MS * 2 ** retry;
+  return delay + Math.random() * delay * 0.2;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * POSTs to a Sarvam endpoint and returns the parsed JSON body.
+ *
+ * @param path - API path, e.g. "/text-to-speech"
+ * @param body - JSON-serialisable object, or FormData for file uploads
+ */
+export async function sarvamRequest<T>(
+  path: string,
+  body: Record<string, unknown> | FormData,
+  options: SarvamRequestOptions = {}
+): Promise<SarvamResult<T>> {
+  const apiKey = process.env.SARVAM_API_KEY?.trim();
+  if (!apiKey) return sarvamFailure('not_configured', 'SARVAM_API_KEY is not set.');
+
+  const timeoutMs = options.timeoutMs ?? envNumber('SARVAM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const maxRetries = options.maxRetries ?? envNumber('SARVAM_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+  const isForm = body instanceof FormData;
+
+  let result: SarvamResult<T> = sarvamFailure('network', 'Request was not sent.');
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let retryAfter: string | null = null;
+    try {
+      const res = await fetch(`${SARVAM_API_URL}${path}`, {
+        method: 'POST',
+        headers: {
+          'api-subscription-key': apiKey,
+          ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+        },
+        body: isForm ? body : JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (res.ok) {
+        try {
+          return { ok: true, data: (await res.json()) as T };
+        } catch {
+          return sarvamFailure('invalid_response', `${path} returned a body that is not JSON.`);
+        }
+      }
+      retryAfter = res.headers.get('retry-after');
+      const errText = await res.text().catch(() => '');
+      result = sarvamFailure('http', `${path} failed (${res.status}). ${errText.slice(0, 200)}`.trim(), res.status);
+    } catch (err) {
+      const timedOut = err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+      result = timedOut
+        ? sarvamFailure('timeout', `${path} timed out after ${timeoutMs} ms.`)
+        : sarvamFailure('network', `${path} request failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (result.ok || !result.error.retryable || attempt === maxRetries) break;
+    const delay = backoffMs(attempt, retryAfter);
+    console.warn(`[sarvam] ${result.error.message} Retrying in ${Math.round(delay)} ms`);
+    await sleep(delay);
+  }
+
+  if (!result.ok) console.error('[sarvam]', result.error.message);
+  return result;
+}
@@ -0,0 +1,50 @@
+/**
+ * Sarvam defaults
+ * ---------------
+ * Default voice, models and language for every Sarvam call the app makes, so
+ * the TTS route and the syncs cannot drift apart. Each can be overridden by env.
+ */
+
+export const SARVAM_DEFAULTS = {
+  tts: {
+    languageCode: process.env.SARVAM_TTS_LANGUAGE?.trim() || 'en-IN',
+    speaker: process.env.SARVAM_TTS_SPEAKER?.trim() || 'ratan',
+    model: process.env.SARVAM_TTS_MODEL?.trim() || 'bulbul:v3',
+    pace: 1,
+    sampleRate: 24000,
+    outputFormat: 'mp3',
+    /** Long text is split into chunks of at most this many characters. */
+    chunkLength: Number(process.env.SARVAM_TTS_CHUNK_LENGTH) || 500,
+    /** Chunks synthesised at the same time. */
+    concurrency: Number(process.env.SARVAM_TTS_CONCURRENCY) || 3,
+  },
+  stt: {
+    /** "unknown" lets Sarvam detect the language. */
+    languageCode: 'unknown',
+    model: process.env.SARVAM_STT_MODEL?.trim() || 'saarika:v2.5',
+    /** Audio longer than this (seconds) is transcribed in segments; the sync API allows 30s. */
+    segmentSeconds: Number(process.env.SARVAM_STT_SEGMENT_SECONDS) || 25,
+    /** Seconds each segment overlaps the previous, so words at the cut are not lost. */
+    segmentOverlapSeconds: 2,
+    /** Segments transcribed at the same time. */
+    concurrency: 3,
+  },
+  translate: {
+    sourceLanguageCode: 'auto',
+    model: process.env.SARVAM_TRANSLATE_MODEL?.trim() || 'mayura:v1',
+  },
+} as const;
+
+/**
+ * Speakers each Bulbul model accepts; Sarvam rejects any other name.
+ * Ref: https://docs.sarvam.ai/api-reference-docs/text-to-speech/convert
+ */
+export const TTS_MODEL_SPEAKERS: Record<string, readonly string[]> = {
+  'bulbul:v2': ['anushka', 'manisha', 'vidya', 'arya', 'abhilash', 'karun', 'hitesh'],
+  'bulbul:v3': [
+    'shubh', 'aditya', 'ritu', 'priya', 'neha', 'rahul', 'pooja', 'rohan', 'simran', 'kavya',
+    'amit', 'dev', 'ishita', 'shreya', 'ratan', 'varun', 'manan', 'sumit', 'roopa', 'kabir',
+    'aayan', 'ashutosh', 'advait', 'amelia', 'sophia', 'anand', 'tanya', 'tarun', 'sunny', 'mani',
+    'gokul', 'vijay', 'shruti', 'suhani', 'mohit', 'kavitha', 'rehan', 'soham', 'rupali',
+  ],
+};
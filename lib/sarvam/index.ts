@@ -0,0 +1,38 @@
+/**
+ * Sarvam AI (server-only)
+ * -----------------------
+ * Speech-to-text, text-to-speech and translation through one client with
+ * shared defaults, timeouts, retries and typed errors. See client.ts.
+ */
+
+export {
+  httpStatusForSarvamError,
+  type SarvamError,
+  type SarvamErrorCode,
+  type SarvamRequestOptions,
+  type SarvamResult,
+} from '@/lib/sarvam/client';
+export { SARVAM_DEFAULTS } from '@/lib/sarvam/defaults';
+export { transcribe, type SttOptions, type SttTranscript } from '@/lib/sarvam/stt';
+export {
+  formatTimestampedTranscript,
+  stitchSegments,
+  transcribeLong,
+  type LongSttOptions,
+  type LongSttTranscript,
+  type SttSegment,
+} from '@/lib/sarvam/longStt';
+export { translateText, type TranslateOptions, type Translation } from '@/lib/sarvam/translate';
+export {
+  contentTypeForFormat,
+  synthesizeSpeech,
+  TTS_MAX_TEXT_LENGTH,
+  type TtsAudio,
+  type TtsOptions,
+} from '@/lib/sarvam/tts';
+export {
+  splitTextForTts,
+  synthesizeLongSpeech,
+  type LongTtsAudio,
+  type LongTtsOptions,
+} from '@/lib/sarvam/longTts';
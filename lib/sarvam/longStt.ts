@@ -0,0 +1,177 @@
+/**
+ * Long-audio STT (server-only)
+ * ----------------------------
+ * Sarvam's synchronous STT only takes short clips. Longer recordings are cut
+ * with ffmpeg into overlapping segments, the segments are transcribed in
+ * parallel up to a concurrency limit, and the transcripts are stitched back
+ * together, dropping the words repeated in each overlap. Every segment keeps
+ * its start and end time.
+ */
+
+import { extractWavSegment } from '@/lib/audio/transcode';
+import { sarvamFailure, type SarvamResult } from '@/lib/sarvam/client';
+import { SARVAM_DEFAULTS } from '@/lib/sarvam/defaults';
+import { transcribe, type SttOptions, type SttTranscript } from '@/lib/sarvam/stt';
+
+export interface LongSttOptions extends SttOptions {
+  /** Max seconds per segment. */
+  segmentSeconds?: number;
+  /** Seconds each segment overlaps the previous one. */
+  overlapSeconds?: number;
+  /** Segments transcribed at the same time. */
+  concurrency?: number;
+}
+
+export interface SttSegment {
+  startSeconds: number;
+  endSeconds: number;
+  /** Empty for silent segments. */
+  transcript: string;
+}
+
+export interface LongSttTranscript extends SttTranscript {
+  /** Segments in order, with the overlap already removed from their transcripts. */
+  segments: SttSegment[];
+}
+
+/** Longest run of words (up to maxWords) that ends `previous` and starts `next`. */
+function overlapWordCount(previous: string[], next: string[], maxWords: number): number {
+  const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+  for (let n = Math.min(maxWords, previous.length, next.length); n > 0; n--) {
+    const tail = previous.slice(-n).map(normalize);
+    const head = next.slice(0, n).map(normalize);
+    if (tail.every((word, i) => word === head[i])) return n;
+  }
+  return 0;
+}
+
+/**
+ * Removes from each segment the leading words that repeat the end of the one
+ * before it (the overlap was heard twice).
+ */
+export function stitchSegments(segments: SttSegment[]): SttSegment[] {
+  const stitched: SttSegment[] = [];
+  let previousWords: string[] = [];
+  for (const segment of segments) {
+    const words = segment.transcript.split(/\s+/).filter(Boolean);
+    // A couple of seconds of speech is rarely more than a dozen words
+    const drop = overlapWordCount(previousWords, words, 12);
+    const kept = words.slice(drop);
+    stitched.push({ ...segment, transcript: kept.join(' ') });
+    if (words.length > 0) previousWords = words;
+  }
+  return stitched;
+}
+
+/** m:ss, e.g. 1:05. */
+function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/** One line per segment, prefixed with its start time: "[0:23] ...". Silent segments are left out. */
+export function formatTimestampedTranscript(segments: SttSegment[]): string {
+  return segments
+    .filter((s) => s.transcript)
+    .map((s) => `[${formatTimestamp(s.startSeconds)}] ${s.transcript}`)
+    .join('\n');
+}
+
+/** Most frequent non-null value, or null. */
+function mostCommon(values: (string | null)[]): string | null {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: string | null = null;
+  for (const [value, count] of Array.from(counts)) if (best == null || count > (counts.get(best) ?? 0)) best = value;
+  return best;
+}
+
+/**
+ * Transcribes audio of any length. Audio up to the segment length is a single
+ * request; longer audio (durationSeconds from Telegram or the file) is split
+ * into overlapping segments, which needs ffmpeg.
+ */
+export async function transcribeLong(
+  audio: Buffer,
+  durationSeconds: number | null,
+  options: LongSttOptions = {}
+): Promise<SarvamResult<LongSttTranscript>> {
+  const defaults = SARVAM_DEFAULTS.stt;
+  const segmentSeconds = Math.max(5, options.segmentSeconds ?? defaults.segmentSeconds);
+  const overlapSeconds = Math.min(
+    Math.max(0, options.overlapSeconds ?? defaults.segmentOverlapSeconds),
+    segmentSeconds / 2
+  );
+
+  if (durationSeconds == null || durationSeconds <= segmentSeconds) {
+    const result = await transcribe(audio, options);
+    if (!result.ok) return result;
+    const end = durationSeconds ?? 0;
+    return {
+      ok: true,
+      data: { ...result.data, segments: [{ startSeconds: 0, endSeconds: end, transcript: result.data.transcript }] },
+    };
+  }
+
+  const step = segmentSeconds - overlapSeconds;
+  const bounds: { start: number; end: number }[] = [];
+  for (let start = 0; start < durationSeconds; start += step) {
+    bounds.push({ start, end: Math.min(start + segmentSeconds, durationSeconds) });
+    if (start + segmentSeconds >= durationSeconds) break;
+  }
+
+  const results: (SttTranscript | null)[] = new Array(bounds.length).fill(null);
+  let failure: SarvamResult<LongSttTranscript> | null = null;
+  let nextToStart = 0;
+
+  const worker = async () => {
+    while (!failure && nextToStart < bounds.length) {
+      const index = nextToStart++;
+      const { start, end } = bounds[index];
+      const wav = await extractWavSegment(audio, start, end - start);
+      if (!wav) {
+        failure ??= sarvamFailure('invalid_request', 'Could not cut the audio into segments. Check that ffmpeg is installed (FFMPEG_PATH).');
+        return;
+      }
+      const result = await transcribe(wav, {
+        ...options,
+        mimeType: 'audio/wav',
+        filename: `segment-${index + 1}.wav`,
+      });
+      // A silent segment has no transcript; that is not a failure of the whole recording
+      if (!result.ok && result.error.code !== 'invalid_response') {
+        failure ??= result;
+        return;
+      }
+      results[index] = result.ok ? result.data : null;
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency ?? defaults.concurrency);
+  await Promise.all(Array.from({ length: Math.min(concurrency, bounds.length) }, worker));
+  if (failure) return failure;
+
+  const segments = stitchSegments(
+    bounds.map(({ start, end }, i) => ({ startSeconds: start, endSeconds: end, transcript: results[i]?.transcript ?? '' }))
+  );
+  const transcript = segments
+    .map((s) => s.transcript)
+    .filter(Boolean)
+    .join(' ');
+  if (!transcript) return sarvamFailure('invalid_response', 'STT returned an empty transcript.');
+
+  const heard = results.filter((r): r is SttTranscript => r != null);
+  const probabilities = heard.map((r) => r.languageProbability).filter((p): p is number => p != null);
+  console.log(`[sarvam/longStt] Transcribed ${bounds.length} segments (${Math.round(durationSeconds)}s)`);
+  return {
+    ok: true,
+    data: {
+      transcript,
+      languageCode: mostCommon(heard.map((r) => r.languageCode)),
+      // The least certain segment decides whether the whole transcript needs review
+      languageProbability: probabilities.length > 0 ? Math.min(...probabilities) : null,
+      requestId: heard.map((r) => r.requestId).filter(Boolean).join(',') || null,
+      segments,
+    },
+  };
+}
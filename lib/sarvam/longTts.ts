@@ -0,0 +1,128 @@
+/**
+ * Long-text TTS (server-only)
+ * ---------------------------
+ * Text over the single-request limit is split at sentence boundaries (., !, ?
+ * and the Devanagari danda । / double danda ॥), the chunks are synthesised in
+ * parallel up to a concurrency limit, and the clips are joined into one file.
+ */
+
+import { CONCATENABLE_FORMATS, concatAudio } from '@/lib/audio/concat';
+import { sarvamFailure, type SarvamResult } from '@/lib/sarvam/client';
+import { SARVAM_DEFAULTS } from '@/lib/sarvam/defaults';
+import { contentTypeForFormat, synthesizeSpeech, TTS_MAX_TEXT_LENGTH, type TtsAudio, type TtsOptions } from '@/lib/sarvam/tts';
+
+export interface LongTtsOptions extends TtsOptions {
+  /** Max characters per chunk (capped at TTS_MAX_TEXT_LENGTH). */
+  chunkLength?: number;
+  /** Chunks synthesised at the same time. */
+  concurrency?: number;
+  /** Called with each clip in text order, as soon as it and all earlier clips are ready. */
+  onClip?: (clip: Buffer, index: number, total: number) => void;
+}
+
+export interface LongTtsAudio extends TtsAudio {
+  /** Number of Sarvam requests the text was split into. */
+  chunkCount: number;
+}
+
+/** Splits on the given boundary, keeping the boundary punctuation with the text before it. */
+function splitKeeping(text: string, boundary: RegExp): string[] {
+  return text
+    .split(boundary)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/** Breaks one over-long piece at clause punctuation, then spaces, then hard cuts. */
+function splitPiece(piece: string, maxLength: number): string[] {
+  if (piece.length <= maxLength) return [piece];
+  for (const boundary of [/(?<=[,;:])\s+/, /\s+/]) {
+    const parts = splitKeeping(piece, boundary);
+    if (parts.length > 1) return pack(parts, maxLength, (part) => splitPiece(part, maxLength));
+  }
+  const cuts: string[] = [];
+  for (let i = 0; i < piece.length; i += maxLength) cuts.push(piece.slice(i, i + maxLength));
+  return cuts;
+}
+
+/** Greedily packs pieces (joined by a space) into chunks of at most maxLength. */
+function pack(pieces: string[], maxLength: number, splitLong: (piece: string) => string[]): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces.flatMap(splitLong)) {
+    if (current && current.length + 1 + piece.length > maxLength) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits text into chunks of at most maxLength characters, preferring sentence
+ * boundaries (including । and ॥) and line breaks.
+ */
+export function splitTextForTts(text: string, maxLength: number = SARVAM_DEFAULTS.tts.chunkLength): string[] {
+  const limit = Math.max(1, Math.min(maxLength, TTS_MAX_TEXT_LENGTH));
+  const sentences = splitKeeping(text, /(?<=[।॥])\s*|(?<=[.!?])\s+|\n+/);
+  return pack(sentences, limit, (sentence) => splitPiece(sentence, limit));
+}
+
+/**
+ * Converts text of any length to speech. Short text is a single request; long
+ * text is chunked (see splitTextForTts), which needs a format concatAudio supports.
+ */
+export async function synthesizeLongSpeech(
+  text: string,
+  options: LongTtsOptions = {}
+): Promise<SarvamResult<LongTtsAudio>> {
+  const format = options.outputFormat ?? SARVAM_DEFAULTS.tts.outputFormat;
+  const chunks = splitTextForTts(text, options.chunkLength);
+  if (chunks.length === 0) return sarvamFailure('invalid_request', 'No text to synthesise.');
+  if (chunks.length > 1 && !(CONCATENABLE_FORMATS as readonly string[]).includes(format)) {
+    return sarvamFailure('invalid_request', `Long text needs output_format ${CONCATENABLE_FORMATS.join(' or ')}.`);
+  }
+
+  const clips: (Buffer | undefined)[] = new Array(chunks.length);
+  const requestIds: (string | null)[] = new Array(chunks.length).fill(null);
+  let failure: SarvamResult<LongTtsAudio> | null = null;
+  let nextToStart = 0;
+  let nextToEmit = 0;
+
+  const worker = async () => {
+    while (!failure && nextToStart < chunks.length) {
+      const index = nextToStart++;
+      const result = await synthesizeSpeech(chunks[index], options);
+      if (!result.ok) {
+        failure ??= result;
+        return;
+      }
+      clips[index] = result.data.audio;
+      requestIds[index] = result.data.requestId;
+      // Hand out clips in text order
+      while (!failure && clips[nextToEmit]) {
+        options.onClip?.(clips[nextToEmit] as Buffer, nextToEmit, chunks.length);
+        nextToEmit++;
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency ?? SARVAM_DEFAULTS.tts.concurrency);
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  if (failure) return failure;
+
+  const audio = concatAudio(clips as Buffer[], format);
+  if (!audio) return sarvamFailure('invalid_response', 'Could not join the synthesised audio clips.');
+  if (chunks.length > 1) console.log(`[sarvam/longTts] Synthesised ${chunks.length} chunks (${text.length} chars)`);
+  return {
+    ok: true,
+    data: {
+      audio,
+      contentType: contentTypeForFormat(format),
+      requestId: requestIds.filter(Boolean).join(',') || null,
+      chunkCount: chunks.length,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Sarvam Speech-to-Text (server-only)
+ * -----------------------------------
+ * Ref: https://docs.sarvam.ai/api-reference-docs/speech-to-text/transcribe
+ */
+
+import { sarvamFailure, sarvamRequest, type SarvamRequestOptions, type SarvamResult } from '@/lib/sarvam/client';
+import { SARVAM_DEFAULTS } from '@/lib/sarvam/defaults';
+
+export interface SttOptions extends SarvamRequestOptions {
+  /** MIME type of the audio (e.g. audio/ogg). */
+  mimeType?: string;
+  /** Filename for the form field (e.g. voice.ogg). */
+  filename?: string;
+  /** BCP-47 language code (e.g. hi-IN, en-IN), or "unknown" to auto-detect. */
+  languageCode?: string;
+  /** saarika:v2.5 or saaras:v3 */
+  model?: string;
+  /** Mode for saaras:v3: transcribe | translate | verbatim | translit | codemix */
+  mode?: string;
+}
+
+export interface SttTranscript {
+  transcript: string;
+  /** Detected or requested language; null when Sarvam did not say. */
+  languageCode: string | null;
+  /** Confidence of the detected language, 0–1. */
+  languageProbability: number | null;
+  requestId: string | null;
+}
+
+interface SarvamSttResponse {
+  request_id?: string | null;
+  transcript?: string;
+  language_code?: string | null;
+  language_probability?: number | null;
+}
+
+/**
+ * Transcribes an audio buffer. An empty transcript is an invalid_response error.
+ */
+export async function transcribe(audio: Buffer, options: SttOptions = {}): Promise<SarvamResult<SttTranscript>> {
+  const mimeType = options.mimeType ?? 'audio/ogg';
+  const formData = new FormData();
+  formData.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), options.filename ?? 'voice.ogg');
+  formData.append('language_code', options.languageCode ?? SARVAM_DEFAULTS.stt.languageCode);
+  formData.append('model', options.model ?? SARVAM_DEFAULTS.stt.model);
+  if (options.mode) formData.append('mode', options.mode);
+
+  const result = await sarvamRequest<SarvamSttResponse>('/speech-to-text', formData, options);
+  if (!result.ok) return result;
+
+  const transcript = result.data.transcript?.trim();
+  if (!transcript) return sarvamFailure('invalid_response', 'STT returned an empty transcript.');
+  console.log('[sarvam/stt] Transcribed:', transcript.slice(0, 80) + (transcript.length > 80 ? '...' : ''));
+  return {
+    ok: true,
+    data: {
+      transcript,
+      languageCode: result.data.language_code ?? null,
+      languageProbability: result.data.language_probability ?? null,
+      requestId: result.data.request_id ?? null,
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Sarvam Translate (server-only)
+ * ------------------------------
+ * Ref: https://docs.sarvam.ai/api-reference-docs/text/translate
+ */
+
+import { sarvamFailure, sarvamRequest, type SarvamRequestOptions, type SarvamResult } from '@/lib/sarvam/client';
+import { SARVAM_DEFAULTS } from '@/lib/sarvam/defaults';
+
+export interface TranslateOptions extends SarvamRequestOptions {
+  /** BCP-47 code of the input, or "auto" to detect it. */
+  sourceLanguageCode?: string;
+  model?: string;
+}
+
+export interface Translation {
+  translatedText: string;
+  /** Language of the input (detected when "auto" was given). */
+  sourceLanguageCode: string | null;
+  requestId: string | null;
+}
+
+interface SarvamTranslateResponse {
+  request_id?: string | null;
+  translated_text?: string;
+  source_language_code?: string | null;
+}
+
+/**
+ * Translates text into the target language (BCP-47 code, e.g. hi-IN).
+ */
+export async function translateText(
+  text: string,
+  targetLanguageCode: string,
+  options: TranslateOptions = {}
+): Promise<SarvamResult<Translation>> {
+  const result = await sarvamRequest<SarvamTranslateResponse>(
+    '/translate',
+    {
+      input: text,
+      source_language_code: options.sourceLanguageCode ?? SARVAM_DEFAULTS.translate.sourceLanguageCode,
+      target_language_code: targetLanguageCode,
+      model: options.model ?? SARVAM_DEFAULTS.translate.model,
+    },
+    options
+  );
+  if (!result.ok) return result;
+
+  const translatedText = result.data.translated_text?.trim();
+  if (!translatedText) return sarvamFailure('invalid_response', 'Translate returned no text.');
+  return {
+    ok: true,
+    data: {
+      translatedText,
+      sourceLanguageCode: result.data.source_language_code ?? null,
+      requestId: result.data.request_id ?? null,
+    },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Sarvam Text-to-Speech (server-only)
+ * -----------------------------------
+ * Ref: https://docs.sarvam.ai/api-reference-docs/api-guides-tutorials/text-to-speech/rest-api
+ */
+
+import { sarvamFailure, sarvamRequest, type SarvamRequestOptions, type SarvamResult } from '@/lib/sarvam/client';
+import { SARVAM_DEFAULTS } from '@/lib/sarvam/defaults';
+
+/** Max length Sarvam TTS accepts for a single request (Bulbul v3). */
+export const TTS_MAX_TEXT_LENGTH = 2500;
+
+export interface TtsOptions extends SarvamRequestOptions {
+  /** BCP-47 language code (e.g. en-IN, hi-IN). */
+  languageCode?: string;
+  speaker?: string;
+  model?: string;
+  /** Speech pace 0.5–2.0. */
+  pace?: number;
+  /** Sample rate in Hz (e.g. 24000). */
+  sampleRate?: number;
+  /** Audio format Sarvam returns (e.g. mp3, wav). */
+  outputFormat?: string;
+}
+
+export interface TtsAudio {
+  audio: Buffer;
+  contentType: string;
+  requestId: string | null;
+}
+
+/** Sarvam's TTS response; audios may be base64 strings or objects depending on the model. */
+interface SarvamTtsResponse {
+  request_id?: string | null;
+  audios?: (string | { audio_content?: string; audio?: string })[];
+  audio_content?: string;
+  audio?: string;
+}
+
+/** Content type for a Sarvam output format. */
+export function contentTypeForFormat(format: string): string {
+  if (format === 'mp3') return 'audio/mpeg';
+  return `audio/${format}`;
+}
+
+/** Pulls the base64 audio out of the response, whichever shape it came in. */
+function extractAudioBase64(data: SarvamTtsResponse): string | null {
+  const first = Array.isArray(data.audios) && data.audios.length > 0 ? data.audios[0] : undefined;
+  const fromList = typeof first === 'string' ? first : first?.audio_content ?? first?.audio;
+  const resolved = fromList ?? data.audio_content ?? data.audio;
+  return typeof resolved === 'string' && resolved ? resolved : null;
+}
+
+/**
+ * Converts text (up to TTS_MAX_TEXT_LENGTH characters) to speech.
+ */
+export async function synthesizeSpeech(text: string, options: TtsOptions = {}): Promise<SarvamResult<TtsAudio>> {
+  const defaults = SARVAM_DEFAULTS.tts;
+  const outputFormat = options.outputFormat ?? defaults.outputFormat;
+  const trimmed = text.trim();
+  if (!trimmed) return sarvamFailure('invalid_request', 'No text to synthesise.');
+
+  const result = await sarvamRequest<SarvamTtsResponse>(
+    '/text-to-speech',
+    {
+      text: trimmed,
+      target_language_code: options.languageCode ?? defaults.languageCode,
+      speaker: options.speaker ?? defaults.speaker,
+      model: options.model ?? defaults.model,
+      pace: options.pace ?? defaults.pace,
+      sample_rate: options.sampleRate ?? defaults.sampleRate,
+      output_format: outputFormat,
+    },
+    options
+  );
+  if (!result.ok) return result;
+
+  const audioBase64 = extractAudioBase64(result.data);
+  if (!audioBase64) {
+    console.error('[sarvam/tts] Unexpected response shape:', Object.keys(result.data ?? {}));
+    return sarvamFailure('invalid_response', 'TTS returned no audio.');
+  }
+  return {
+    ok: true,
+    data: {
+      audio: Buffer.from(audioBase64, 'base64'),
+      contentType: contentTypeForFormat(outputFormat),
+      requestId: result.data.request_id ?? null,
+    },
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Sync Schedule
+ * -------------
+ * Works out when the morning, evening and evening-cutoff syncs should run,
+ * from local times in a configured timezone (IST by default). Weekends and
+ * holidays listed in the config are skipped. Pure date maths only; running
+ * the jobs lives in lib/scheduler.ts.
+ *
+ * Env:
+ *   SYNC_TIMEZONE         IANA timezone, default Asia/Kolkata
+ *   MORNING_SYNC_TIME     HH:MM local, default 09:00
+ *   EVENING_SYNC_TIME     HH:MM local, default 18:00
+ *   SYNC_SKIP_WEEKDAYS    comma list of weekday names to skip, default Sat,Sun
+ *   SYNC_HOLIDAYS         comma list of YYYY-MM-DD dates to skip
+ *   SCHEDULE_GRACE_MINUTES how late a run may still fire (e.g. after a restart), default 60
+ *   EVENING_REPLY_WINDOW_MINUTES minutes workers have to reply to the evening prompt, default 120
+ */
+
+import type { SyncJobType } from '@/lib/syncs';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface ScheduleConfig {
+  timezone: string;
+  /** Minutes after local midnight. */
+  morningMinutes: number;
+  eveningMinutes: number;
+  /** 0 = Sunday ... 6 = Saturday. */
+  skipWeekdays: number[];
+  /** YYYY-MM-DD local dates. */
+  holidays: string[];
+  graceMinutes: number;
+}
+
+/** One planned run of a sync job. */
+export interface PlannedRun {
+  /** Stable id for the run, e.g. "2026-10-19:morning"; used to prevent double-firing. */
+  key: string;
+  type: SyncJobType;
+  /** Local date the run belongs to, YYYY-MM-DD. */
+  localDate: string;
+  scheduledFor: Date;
+}
+
+function parseTime(value: string | undefined, fallback: string): number {
+  const match = (value?.trim() || fallback).match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return parseTime(fallback, fallback);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function getScheduleConfig(): ScheduleConfig {
+  const skipRaw = process.env.SYNC_SKIP_WEEKDAYS;
+  const skipNames = skipRaw != null ? parseList(skipRaw) : ['Sat', 'Sun'];
+  const grace = Number(process.env.SCHEDULE_GRACE_MINUTES);
+  return {
+    timezone: process.env.SYNC_TIMEZONE?.trim() || 'Asia/Kolkata',
+    morningMinutes: parseTime(process.env.MORNING_SYNC_TIME, '09:00'),
+    eveningMinutes: parseTime(process.env.EVENING_SYNC_TIME, '18:00'),
+    skipWeekdays: skipNames
+      .map((name) => WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase()))
+      .filter((i) => i >= 0),
+    holidays: parseList(process.env.SYNC_HOLIDAYS),
+    graceMinutes: Number.isFinite(grace) && grace > 0 ? grace : 60,
+  };
+}
+
+/** Local calendar date (YYYY-MM-DD) of an instant in the given timezone. */
+export function localDateString(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Local date (YYYY-MM-DD) of an instant in the sync timezone: the day a sync
+ * run, its deliveries and its status buttons belong to.
+ */
+export function localSyncDate(date: Date = new Date()): string {
+  return localDateString(date, getScheduleConfig().timezone);
+}
+
+/** Minutes workers have to reply to the evening prompt (EVENING_REPLY_WINDOW_MINUTES, default 120). */
+export function getEveningReplyWindowMinutes(): number {
+  const minutes = Number(process.env.EVENING_REPLY_WINDOW_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 120;
+}
+
+/** Offset of the timezone from UTC at the given instant, in milliseconds. */
+function timezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The instant at which it is `minutes` past midnight on `localDate` in the timezone. */
+function localTimeToDate(localDate: string, minutes: number, timezone: string): Date {
+  const [y, m, d] = localDate.split('-').map(Number);
+  const naiveUtc = Date.UTC(y, m - 1, d, 0, minutes);
+  // Two passes so the offset is taken at the target instant (handles DST changes)
+  let instant = naiveUtc - timezoneOffsetMs(new Date(naiveUtc), timezone);
+  instant = naiveUtc - timezoneOffsetMs(new Date(instant), timezone);
+  return new Date(instant);
+}
+
+function addDays(localDate: string, days: number): string {
+  const [y, m, d] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** True if syncs should not run on this local date (weekend or holiday). */
+export function isSkippedDate(localDate: string, config: ScheduleConfig): boolean {
+  const [y, m, d] = localDate.split('-').map(Number);
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return config.skipWeekdays.includes(weekday) || config.holidays.includes(localDate);
+}
+
+/** Minutes after local midnight at which the evening-cutoff run fires. */
+function eveningCutoffMinutes(config: ScheduleConfig): number {
+  return config.eveningMinutes + getEveningReplyWindowMinutes();
+}
+
+/** All runs planned for one local date (empty on skipped dates). */
+function runsForDate(localDate: string, config: ScheduleConfig): PlannedRun[] {
+  if (isSkippedDate(localDate, config)) return [];
+  const cutoffMinutes = eveningCutoffMinutes(config);
+  const jobs: [SyncJobType, number][] = [
+    ['morning', config.morningMinutes],
+    ['evening', config.eveningMinutes],
+    ['evening-cutoff', cutoffMinutes],
+  ];
+  return jobs.map(([type, minutes]) => ({
+    key: `${localDate}:${type}`,
+    type,
+    localDate,
+    scheduledFor: localTimeToDate(localDate, minutes, config.timezone),
+  }));
+}
+
+/**
+ * Reply cutoff for an evening sync started at `runStart`: the time the
+ * evening-cutoff run is scheduled for that local date, so every prompt of the
+ * run is flagged by that one run however long the sends take. A run started
+ * after that time (e.g. a manual one) gets the full reply window from its start.
+ */
+export function getEveningCutoff(runStart: Date, config: ScheduleConfig = getScheduleConfig()): Date {
+  const localDate = localDateString(runStart, config.timezone);
+  const scheduled = localTimeToDate(localDate, eveningCutoffMinutes(config), config.timezone);
+  if (scheduled.getTime() > runStart.getTime()) return scheduled;
+  return new Date(runStart.getTime() + getEveningReplyWindowMinutes() * 60_000);
+}
+
+/**
+ * Planned runs within [from - lookbackDays, from + days], sorted by time.
+ */
+function plannedRunsAround(from: Date, config: ScheduleConfig, lookbackDays: number, days: number): PlannedRun[] {
+  const today = localDateString(from, config.timezone);
+  const runs: PlannedRun[] = [];
+  for (let i = -lookbackDays; i <= days; i++) {
+    runs.push(...runsForDate(addDays(today, i), config));
+  }
+  return runs.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+}
+
+/**
+ * Runs whose time has come but is no more than the grace period ago.
+ * The caller must still check the run history so each key fires once.
+ */
+export function getDueRuns(now: Date, config: ScheduleConfig = getScheduleConfig()): PlannedRun[] {
+  const earliest = now.getTime() - config.graceMinutes * 60_000;
+  return plannedRunsAround(now, config, 1, 0).filter(
+    (r) => r.scheduledFor.getTime() <= now.getTime() && r.scheduledFor.getTime() > earliest
+  );
+}
+
+/**
+ * The next `count` runs strictly after `now` (looks up to 30 days ahead).
+ */
+export function getUpcomingRuns(
+  now: Date,
+  count: number,
+  config: ScheduleConfig = getScheduleConfig()
+): PlannedRun[] {
+  return plannedRunsAround(now, config, 0, 30)
+    .filter((r) => r.scheduledFor.getTime() > now.getTime())
+    .slice(0, count);
+}
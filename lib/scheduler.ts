@@ -0,0 +1,113 @@
+/**
+ * Sync Scheduler (server-only)
+ * ----------------------------
+ * Fires the planned syncs from lib/schedule.ts. Two ways to drive it:
+ * - In-process: with SCHEDULER_ENABLED=true, instrumentation.ts starts a timer
+ *   that checks for due runs every minute (long-running `next start` servers).
+ * - External: a cron service calls /api/scheduler/tick (e.g. every 5 minutes),
+ *   for serverless deployments where no process stays up.
+ * Both go through the run history, so each planned run fires at most once.
+ * Each tick also sends due follow-ups (lib/followUps.ts), applies the
+ * recording retention policy (at most once a day) and drops expired TTS cache
+ * entries.
+ */
+
+import { runFollowUps } from '@/lib/followUps';
+import { getDueRuns, type PlannedRun } from '@/lib/schedule';
+import { purgeRecordingsIfDue } from '@/lib/storage/retention';
+import { claimRun, finishRun, type RunTrigger } from '@/lib/syncRuns';
+import { pruneTtsCache } from '@/lib/ttsCache';
+import { runSync, type SyncJobType, type SyncOutcome } from '@/lib/syncs';
+
+/** How often the in-process timer checks for due runs. */
+const TICK_INTERVAL_MS = 60_000;
+
+/** Result of running (or not) one job through the history. */
+export interface ExecutedRun {
+  key: string;
+  type: SyncJobType;
+  /** false if the key was already claimed, so nothing was sent. */
+  executed: boolean;
+  outcome?: SyncOutcome;
+}
+
+/**
+ * Claims the run key, runs the sync and records the outcome.
+ * Returns executed: false without running anything if the key is taken.
+ */
+export async function executeRun(
+  run: { key: string; type: SyncJobType; scheduledFor?: Date },
+  trigger: RunTrigger
+): Promise<ExecutedRun> {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    return {
+      key: run.key,
+      type: run.type,
+      executed: false,
+      outcome: { success: false, status: 503, message: 'GOOGLE_SHEET_ID not set.' },
+    };
+  }
+
+  const claimed = await claimRun(spreadsheetId, { ...run, trigger });
+  if (!claimed) {
+    return { key: run.key, type: run.type, executed: false };
+  }
+
+  let outcome: SyncOutcome;
+  try {
+    outcome = await runSync(run.type);
+  } catch (err) {
+    console.error(`[scheduler] Run ${run.key} threw:`, err);
+    outcome = { success: false, status: 500, message: err instanceof Error ? err.message : 'Sync failed.' };
+  }
+  await finishRun(spreadsheetId, claimed, outcome);
+  console.log(`[scheduler] Run ${run.key} (${trigger}): ${outcome.message}`);
+  return { key: run.key, type: run.type, executed: true, outcome };
+}
+
+/**
+ * Runs every planned sync that is due now and has not fired yet.
+ */
+export async function runDueSyncs(trigger: RunTrigger, now: Date = new Date()): Promise<ExecutedRun[]> {
+  const due: PlannedRun[] = getDueRuns(now);
+  const executed: ExecutedRun[] = [];
+  // Sequential: a morning and cutoff run due together should not interleave sheet writes
+  for (const run of due) {
+    executed.push(await executeRun(run, trigger));
+  }
+  return executed;
+}
+
+// The timer is kept on globalThis so dev-server hot reloads do not start a second one.
+const globalForScheduler = globalThis as unknown as {
+  syncSchedulerTimer?: ReturnType<typeof setInterval>;
+  syncSchedulerBusy?: boolean;
+};
+
+/**
+ * Starts the in-process timer if SCHEDULER_ENABLED=true. Safe to call more than once.
+ */
+export function startScheduler(): void {
+  if (process.env.SCHEDULER_ENABLED?.trim() !== 'true') return;
+  if (globalForScheduler.syncSchedulerTimer) return;
+
+  const tick = async () => {
+    if (globalForScheduler.syncSchedulerBusy) return;
+    globalForScheduler.syncSchedulerBusy = true;
+    try {
+      await runDueSyncs('schedule');
+      await runFollowUps();
+      await purgeRecordingsIfDue();
+      await pruneTtsCache();
+    } catch (err) {
+      console.error('[scheduler] Tick failed:', err);
+    } finally {
+      globalForScheduler.syncSchedulerBusy = false;
+    }
+  };
+
+  globalForScheduler.syncSchedulerTimer = setInterval(tick, TICK_INTERVAL_MS);
+  console.log('[scheduler] In-process scheduler started');
+  void tick();
+}
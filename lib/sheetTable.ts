@@ -0,0 +1,190 @@
+/**
+ * Sheet tables (server-only)
+ * --------------------------
+ * Treats a tab of the spreadsheet as a simple table: row 1 holds the column
+ * headings, every row below is one record. Used for the bot's own tabs
+ * (worker registry, etc.) so each of them does not re-implement A1 ranges.
+ */
+
+import { appendToSheet, ensureSheetTab, readSheet, updateSheet } from '@/lib/googleSheets';
+
+/** One record read from a table, with the 1-based sheet row it lives on. */
+export interface TableRow<K extends string> {
+  rowNumber: number;
+  values: Record<K, string>;
+}
+
+/** Convert column index to letter(s): 0=A, 1=B, ..., 25=Z, 26=AA, etc. */
+export function columnLetter(index: number): string {
+  let letter = '';
+  let n = index;
+  while (n >= 0) {
+    letter = String.fromCharCode((n % 26) + 65) + letter;
+    n = Math.floor(n / 26) - 1;
+  }
+  return letter;
+}
+
+/** A1 range for the given rows of a tab, spanning all table columns. */
+function tableRange(tab: string, columnCount: number, fromRow: number, toRow?: number): string {
+  const lastCol = columnLetter(columnCount - 1);
+  return `'${tab.replace(/'/g, "''")}'!A${fromRow}:${lastCol}${toRow ?? ''}`;
+}
+
+/** Tabs whose header has already been checked by this process. */
+const ensuredTables = new Set<string>();
+
+/**
+ * Creates the tab if needed and writes the header row when it is missing or
+ * out of date (e.g. after a column was added to the table definition).
+ */
+async function ensureTable(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly string[]
+): Promise<boolean> {
+  const cacheKey = `${spreadsheetId}:${tab}:${columns.join('|')}`;
+  if (ensuredTables.has(cacheKey)) return true;
+
+  if (!(await ensureSheetTab(spreadsheetId, tab))) return false;
+
+  const header = await readSheet(spreadsheetId, tableRange(tab, columns.length, 1, 1));
+  if (!header) return false;
+  const current = header[0] ?? [];
+  const upToDate = columns.every((c, i) => (current[i] ?? '').trim() === c);
+  if (!upToDate) {
+    const ok = await updateSheet(spreadsheetId, tableRange(tab, columns.length, 1, 1), [[...columns]]);
+    if (!ok) return false;
+  }
+
+  ensuredTables.add(cacheKey);
+  return true;
+}
+
+function toRowValues<K extends string>(columns: readonly K[], record: Partial<Record<K, string>>): string[] {
+  return columns.map((c) => record[c] ?? '');
+}
+
+/**
+ * Reads every record of a table, or those from `fromRow` (1-based sheet row)
+ * down. Blank rows are skipped.
+ *
+ * @returns Records in sheet order, or null if the tab could not be read
+ */
+export async function readTable<K extends string>(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly K[],
+  fromRow = 2
+): Promise<TableRow<K>[] | null> {
+  if (!(await ensureTable(spreadsheetId, tab, columns))) return null;
+
+  const firstRow = Math.max(fromRow, 2);
+  const rows = await readSheet(spreadsheetId, tableRange(tab, columns.length, firstRow));
+  if (!rows) return null;
+
+  const records: TableRow<K>[] = [];
+  rows.forEach((row, i) => {
+    if (!row.some((cell) => cell?.trim())) return;
+    const values = {} as Record<K, string>;
+    columns.forEach((c, colIndex) => {
+      values[c] = (row[colIndex] ?? '').trim();
+    });
+    records.push({ rowNumber: i + firstRow, values });
+  });
+  return records;
+}
+
+/** spreadsheet:tab:column:min -> first row found for that minimum by this process. */
+const firstRowCache = new Map<string, { min: string; row: number }>();
+
+/**
+ * First data row whose value in `column` is at least `min` (compared as
+ * strings, e.g. YYYY-MM-DD dates), reading only that column. Rows are only
+ * ever appended, so a later search with a higher minimum starts where the
+ * last one ended and reads just the rows added since.
+ *
+ * @returns The 1-based sheet row (one past the last row if none match), or null if the tab could not be read
+ */
+export async function findFirstRowFrom<K extends string>(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly K[],
+  column: K,
+  min: string
+): Promise<number | null> {
+  if (!(await ensureTable(spreadsheetId, tab, columns))) return null;
+
+  const cacheKey = `${spreadsheetId}:${tab}:${column}`;
+  const cached = firstRowCache.get(cacheKey);
+  const startRow = cached && cached.min <= min ? cached.row : 2;
+  const letter = columnLetter(columns.indexOf(column));
+  const cells = await readSheet(spreadsheetId, `'${tab.replace(/'/g, "''")}'!${letter}${startRow}:${letter}`);
+  if (!cells) return null;
+
+  const offset = cells.findIndex((row) => (row[0] ?? '').trim() >= min);
+  const row = startRow + (offset === -1 ? cells.length : offset);
+  firstRowCache.set(cacheKey, { min, row });
+  return row;
+}
+
+/**
+ * Appends one record below the last row of the table.
+ */
+export async function appendTableRow<K extends string>(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly K[],
+  record: Partial<Record<K, string>>
+): Promise<boolean> {
+  if (!(await ensureTable(spreadsheetId, tab, columns))) return false;
+  return appendToSheet(spreadsheetId, tableRange(tab, columns.length, 1), [toRowValues(columns, record)]);
+}
+
+/**
+ * Appends several records in one call, in order.
+ */
+export async function appendTableRows<K extends string>(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly K[],
+  records: Partial<Record<K, string>>[]
+): Promise<boolean> {
+  if (records.length === 0) return true;
+  if (!(await ensureTable(spreadsheetId, tab, columns))) return false;
+  return appendToSheet(
+    spreadsheetId,
+    tableRange(tab, columns.length, 1),
+    records.map((r) => toRowValues(columns, r))
+  );
+}
+
+/**
+ * Overwrites the record on the given sheet row.
+ */
+export async function updateTableRow<K extends string>(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly K[],
+  rowNumber: number,
+  record: Partial<Record<K, string>>
+): Promise<boolean> {
+  if (!(await ensureTable(spreadsheetId, tab, columns))) return false;
+  return updateSheet(
+    spreadsheetId,
+    tableRange(tab, columns.length, rowNumber, rowNumber),
+    [toRowValues(columns, record)]
+  );
+}
+
+/**
+ * Blanks out the record on the given sheet row. Blank rows are ignored by readTable.
+ */
+export async function clearTableRow<K extends string>(
+  spreadsheetId: string,
+  tab: string,
+  columns: readonly K[],
+  rowNumber: number
+): Promise<boolean> {
+  return updateTableRow(spreadsheetId, tab, columns, rowNumber, {});
+}
@@ -0,0 +1,160 @@
+/**
+ * Storage (server-only)
+ * ---------------------
+ * Picks the storage backend from config and offers the helpers the bot uses
+ * (voice and media uploads). STORAGE_BACKEND selects:
+ * - s3:            AWS S3 (AWS_REGION, AWS_S3_BUCKET, credentials)
+ * - s3-compatible: same, plus S3_ENDPOINT (MinIO, R2, ...)
+ * - local:         files under STORAGE_LOCAL_DIR, served by /api/storage
+ * When unset, s3 is used if AWS_S3_BUCKET is set, otherwise local.
+ *
+ * Recordings and media are private. The log stores a link to the app's
+ * /audio/<key> (or /media/<key>) route, which checks the viewer is signed in
+ * and redirects to a signed URL.
+ */
+
+import path from 'path';
+import { createLocalStorage } from '@/lib/storage/local';
+import { createS3Storage } from '@/lib/storage/s3';
+import type { StorageBackend, StorageBackendName } from '@/lib/storage/types';
+
+export type { StorageBackend, StorageBackendName, StoredObject, StoredObjectInfo } from '@/lib/storage/types';
+
+/** Key prefix all voice recordings are stored under. */
+export const RECORDINGS_PREFIX = 'voice/';
+
+/** App route that hands out signed URLs for recordings. */
+export const RECORDING_ROUTE = '/audio';
+
+/** Key prefix for photos, documents and other files workers send. */
+export const MEDIA_PREFIX = 'media/';
+
+/** App route that hands out signed URLs for media. */
+export const MEDIA_ROUTE = '/media';
+
+let cached: StorageBackend | null | undefined;
+
+/** Lifetime of a recording's signed URL (RECORDING_URL_TTL_SECONDS, default 300). */
+export function getRecordingUrlTtlSeconds(): number {
+  const seconds = Number(process.env.RECORDING_URL_TTL_SECONDS);
+  return Number.isInteger(seconds) && seconds > 0 ? seconds : 300;
+}
+
+function appLink(route: string, key: string): string {
+  const baseUrl = process.env.APP_BASE_URL?.trim().replace(/\/$/, '') ?? '';
+  return `${baseUrl}${route}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/** Permanent, access-checked app link to a stored recording. */
+export function getRecordingLink(key: string): string {
+  return appLink(RECORDING_ROUTE, key);
+}
+
+/** Permanent, access-checked app link to stored media. */
+export function getMediaLink(key: string): string {
+  return appLink(MEDIA_ROUTE, key);
+}
+
+/** Secret for locally signed URLs (STORAGE_SIGNING_SECRET, falling back to AUTH_SECRET). */
+export function getStorageSigningSecret(): string | undefined {
+  return process.env.STORAGE_SIGNING_SECRET?.trim() || process.env.AUTH_SECRET?.trim() || undefined;
+}
+
+function configuredBackendName(): StorageBackendName | null {
+  const name = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  if (!name) return process.env.AWS_S3_BUCKET?.trim() ? 's3' : 'local';
+  if (name === 's3' || name === 's3-compatible' || name === 'local') return name;
+  console.error(`[storage] Unknown STORAGE_BACKEND "${name}" (expected s3, s3-compatible or local)`);
+  return null;
+}
+
+function createBackend(): StorageBackend | null {
+  const name = configuredBackendName();
+  if (!name) return null;
+
+  if (name === 'local') {
+    const dataDir = process.env.DATA_DIR?.trim() || '.data';
+    return createLocalStorage({
+      rootDir: process.env.STORAGE_LOCAL_DIR?.trim() || path.join(dataDir, 'storage'),
+      baseUrl: process.env.APP_BASE_URL?.trim().replace(/\/$/, '') ?? '',
+      signingSecret: getStorageSigningSecret(),
+    });
+  }
+
+  const bucket = process.env.AWS_S3_BUCKET?.trim();
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY?.trim();
+  const endpoint = process.env.S3_ENDPOINT?.trim().replace(/\/$/, '');
+  const region = process.env.AWS_REGION?.trim() || (name === 's3-compatible' ? 'us-east-1' : '');
+  if (!bucket || !region || !accessKeyId || !secretAccessKey) {
+    console.error('[storage] Missing AWS_REGION, AWS_S3_BUCKET or credentials');
+    return null;
+  }
+  if (name === 's3-compatible' && !endpoint) {
+    console.error('[storage] STORAGE_BACKEND=s3-compatible needs S3_ENDPOINT');
+    return null;
+  }
+
+  return createS3Storage({
+    name,
+    bucket,
+    region,
+    accessKeyId,
+    secretAccessKey,
+    endpoint: name === 's3-compatible' ? endpoint : undefined,
+    forcePathStyle: name === 's3-compatible' && process.env.S3_FORCE_PATH_STYLE !== 'false',
+  });
+}
+
+/**
+ * The configured storage backend.
+ *
+ * @returns The backend, or null if its config is incomplete
+ */
+export function getStorage(): StorageBackend | null {
+  if (cached === undefined) cached = createBackend();
+  return cached;
+}
+
+/**
+ * Stores a voice message and returns its app link (see getRecordingLink).
+ * Key will be: voice/YYYY-MM-DD/<fileUniqueId>.<ext>
+ */
+export async function uploadVoice(
+  buffer: Buffer,
+  fileUniqueId: string,
+  mimeType: string = 'audio/ogg',
+  extension: string = 'ogg'
+): Promise<string | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  const datePrefix = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+  const key = `${RECORDINGS_PREFIX}${datePrefix}/${fileUniqueId}.${extension}`;
+  if (!(await storage.put(key, buffer, mimeType))) return null;
+
+  console.log(`[storage] Uploaded voice to ${key}`);
+  return getRecordingLink(key);
+}
+
+/**
+ * Stores a file a worker sent (photo, document, ...) and returns its app link
+ * (see getMediaLink). Key will be: media/<kind>/YYYY-MM-DD/<fileUniqueId>.<ext>
+ */
+export async function uploadMedia(
+  buffer: Buffer,
+  kind: string,
+  fileUniqueId: string,
+  mimeType: string,
+  extension: string
+): Promise<string | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  const datePrefix = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+  const key = `${MEDIA_PREFIX}${kind}/${datePrefix}/${fileUniqueId}.${extension}`;
+  if (!(await storage.put(key, buffer, mimeType))) return null;
+
+  console.log(`[storage] Uploaded ${kind} to ${key}`);
+  return getMediaLink(key);
+}
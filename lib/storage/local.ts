@@ -0,0 +1,177 @@
+/**
+ * Local disk storage backend (server-only)
+ * ----------------------------------------
+ * Stores objects as files under a directory, for development and tests without
+ * S3. Files are served by the app itself through /api/storage/<key>, only with
+ * a signed URL: an expiry and an HMAC signature checked by that route. The
+ * content type given to put() is kept in a sidecar file next to the object and
+ * served back; files without one fall back to a type by extension.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageBackend, StoredObjectInfo } from '@/lib/storage/types';
+
+/** Route that serves locally stored files. */
+export const LOCAL_STORAGE_ROUTE = '/api/storage';
+
+/** Content types by file extension, for files stored without a sidecar. */
+const CONTENT_TYPES: Record<string, string> = {
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.json': 'application/json',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+};
+
+/** Suffix of the sidecar file holding an object's content type. */
+const CONTENT_TYPE_SUFFIX = '.content-type';
+
+export interface LocalStorageConfig {
+  /** Directory files are kept in. */
+  rootDir: string;
+  /** App URL the serving route is reached on; empty for relative links. */
+  baseUrl: string;
+  /** Secret for signed URLs; signing fails without one. */
+  signingSecret?: string;
+}
+
+function sign(secret: string, key: string, expires: number): string {
+  return createHmac('sha256', secret).update(`${key}\n${expires}`).digest('hex');
+}
+
+/**
+ * Checks a signed URL's expiry and signature.
+ */
+export function verifyLocalSignature(
+  secret: string | undefined,
+  key: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  if (!secret || !expires || !signature) return false;
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+  const expected = Buffer.from(sign(secret, key, expiresAt));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function createLocalStorage(config: LocalStorageConfig): StorageBackend {
+  const root = path.resolve(config.rootDir);
+
+  /** Absolute file path for a key, or null if the key would escape the root or names a sidecar. */
+  function resolveKey(key: string): string | null {
+    const file = path.resolve(root, key);
+    return file.startsWith(root + path.sep) && !file.endsWith(CONTENT_TYPE_SUFFIX) ? file : null;
+  }
+
+  /** The content type recorded by put(), or the one for the key's extension. */
+  async function readContentType(file: string, key: string): Promise<string> {
+    try {
+      return (await fs.readFile(file + CONTENT_TYPE_SUFFIX, 'utf8')).trim() || contentTypeFor(key);
+    } catch {
+      return contentTypeFor(key);
+    }
+  }
+
+  function routeUrl(key: string): string {
+    const encoded = key.split('/').map(encodeURIComponent).join('/');
+    return `${config.baseUrl}${LOCAL_STORAGE_ROUTE}/${encoded}`;
+  }
+
+  return {
+    name: 'local',
+
+    async put(key, body, contentType) {
+      const file = resolveKey(key);
+      if (!file) return false;
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, body);
+        if (contentType) await fs.writeFile(file + CONTENT_TYPE_SUFFIX, contentType);
+        else await fs.rm(file + CONTENT_TYPE_SUFFIX, { force: true });
+        return true;
+      } catch (err) {
+        console.error(`[storage:local] Write of ${key} failed:`, err);
+        return false;
+      }
+    },
+
+    async get(key) {
+      const file = resolveKey(key);
+      if (!file) return null;
+      try {
+        return { body: await fs.readFile(file), contentType: await readContentType(file, key) };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`[storage:local] Read of ${key} failed:`, err);
+        }
+        return null;
+      }
+    },
+
+    async getSignedUrl(key, expiresInSeconds) {
+      if (!config.signingSecret) {
+        console.error('[storage:local] No signing secret (STORAGE_SIGNING_SECRET or AUTH_SECRET)');
+        return null;
+      }
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const signature = sign(config.signingSecret, key, expires);
+      return `${routeUrl(key)}?expires=${expires}&signature=${signature}`;
+    },
+
+    async list(prefix) {
+      const objects: StoredObjectInfo[] = [];
+      const walk = async (dir: string): Promise<void> => {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+          const file = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            await walk(file);
+            continue;
+          }
+          const key = path.relative(root, file).split(path.sep).join('/');
+          if (key.endsWith(CONTENT_TYPE_SUFFIX)) continue;
+          if (key.startsWith(prefix)) objects.push({ key, lastModified: (await fs.stat(file)).mtime });
+        }
+      };
+      try {
+        await walk(root);
+        return objects;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return objects;
+        console.error(`[storage:local] Listing ${prefix} failed:`, err);
+        return null;
+      }
+    },
+
+    async delete(key) {
+      const file = resolveKey(key);
+      if (!file) return false;
+      try {
+        await fs.rm(file, { force: true });
+        await fs.rm(file + CONTENT_TYPE_SUFFIX, { force: true });
+        return true;
+      } catch (err) {
+        console.error(`[storage:local] Delete of ${key} failed:`, err);
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Signed-URL redirects (server-only)
+ * ----------------------------------
+ * Shared by the /audio and /media link routes: checks the key is under the
+ * route's prefix and redirects to a signed URL that expires after
+ * RECORDING_URL_TTL_SECONDS, so the object itself is never publicly reachable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRecordingUrlTtlSeconds, getStorage } from '@/lib/storage';
+
+/**
+ * Redirects (302) to a short-lived signed URL for the object at the route's
+ * key segments, or answers 404/502/503 JSON.
+ */
+export async function redirectToSignedUrl(
+  request: NextRequest,
+  keySegments: string[],
+  prefix: string
+): Promise<NextResponse> {
+  const key = keySegments.map(decodeURIComponent).join('/');
+  if (!key.startsWith(prefix) || key.split('/').includes('..')) {
+    return NextResponse.json({ success: false, error: 'Not found.' }, { status: 404 });
+  }
+
+  const storage = getStorage();
+  if (!storage) {
+    return NextResponse.json(
+      { success: false, error: 'Storage is not configured.' },
+      { status: 503 }
+    );
+  }
+
+  const url = await storage.getSignedUrl(key, getRecordingUrlTtlSeconds());
+  if (!url) {
+    return NextResponse.json(
+      { success: false, error: 'Could not create a link to the file.' },
+      { status: 502 }
+    );
+  }
+  // Relative URLs come from the local backend when APP_BASE_URL is unset
+  const response = NextResponse.redirect(new URL(url, request.url));
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+}
@@ -0,0 +1,79 @@
+/**
+ * Recording retention (server-only)
+ * ---------------------------------
+ * Deletes voice recordings and media older than RECORDING_RETENTION_DAYS (unset
+ * or 0 keeps them forever). Runs from the scheduler at most once a day; the time of the last
+ * purge is kept in the JSON store so restarts do not trigger extra passes.
+ */
+
+import { readJson, writeJson } from '@/lib/jsonStore';
+import { getStorage, MEDIA_PREFIX, RECORDINGS_PREFIX, type StoredObjectInfo } from '@/lib/storage';
+
+const STORE_NAME = 'retention';
+
+/** Key prefixes the retention period applies to. */
+const RETAINED_PREFIXES = [RECORDINGS_PREFIX, MEDIA_PREFIX];
+
+/** Minimum time between two purges. */
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface RetentionState {
+  /** ISO time of the last completed purge. */
+  lastPurgeAt?: string;
+}
+
+export interface PurgeResult {
+  deleted: number;
+  failed: number;
+}
+
+/** Days recordings are kept (RECORDING_RETENTION_DAYS); null when retention is off. */
+export function getRetentionDays(): number | null {
+  const days = Number(process.env.RECORDING_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/**
+ * Deletes every recording and media file last modified more than the retention period before `now`.
+ *
+ * @returns Counts, or null if retention is off or storage could not be listed
+ */
+export async function purgeExpiredRecordings(now: Date = new Date()): Promise<PurgeResult | null> {
+  const days = getRetentionDays();
+  const storage = getStorage();
+  if (!days || !storage) return null;
+
+  const objects: StoredObjectInfo[] = [];
+  for (const prefix of RETAINED_PREFIXES) {
+    const listed = await storage.list(prefix);
+    if (!listed) return null;
+    objects.push(...listed);
+  }
+
+  const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+  const result: PurgeResult = { deleted: 0, failed: 0 };
+  for (const object of objects) {
+    if (object.lastModified.getTime() >= cutoff) continue;
+    if (await storage.delete(object.key)) result.deleted++;
+    else result.failed++;
+  }
+  console.log(`[retention] Deleted ${result.deleted} recording(s) older than ${days} day(s), ${result.failed} failed`);
+  return result;
+}
+
+/**
+ * Runs purgeExpiredRecordings if retention is on and the last purge was over a day ago.
+ *
+ * @returns The purge result, or null if no purge ran
+ */
+export async function purgeRecordingsIfDue(now: Date = new Date()): Promise<PurgeResult | null> {
+  if (!getRetentionDays()) return null;
+
+  const state = await readJson<RetentionState>(STORE_NAME, {});
+  const lastPurge = state.lastPurgeAt ? new Date(state.lastPurgeAt).getTime() : 0;
+  if (now.getTime() - lastPurge < PURGE_INTERVAL_MS) return null;
+
+  const result = await purgeExpiredRecordings(now);
+  if (result) await writeJson<RetentionState>(STORE_NAME, { lastPurgeAt: now.toISOString() });
+  return result;
+}
@@ -0,0 +1,122 @@
+/**
+ * S3 storage backend (server-only)
+ * --------------------------------
+ * Stores objects in an AWS S3 bucket, or in any S3-compatible service (MinIO,
+ * Cloudflare R2, ...) when an endpoint is given. Objects are written without a
+ * public ACL; the bucket should block public access.
+ */
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageBackend, StorageBackendName, StoredObjectInfo } from '@/lib/storage/types';
+
+export interface S3StorageConfig {
+  name: Extract<StorageBackendName, 's3' | 's3-compatible'>;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Custom endpoint for S3-compatible services; omit for AWS. */
+  endpoint?: string;
+  /** Use bucket-in-path URLs (most S3-compatible services need this). */
+  forcePathStyle?: boolean;
+}
+
+function isNotFound(err: unknown): boolean {
+  const name = (err as { name?: string })?.name;
+  return name === 'NoSuchKey' || name === 'NotFound';
+}
+
+export function createS3Storage(config: S3StorageConfig): StorageBackend {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+  });
+  const log = `[storage:${config.name}]`;
+
+  return {
+    name: config.name,
+
+    async put(key, body, contentType) {
+      try {
+        await client.send(
+          new PutObjectCommand({ Bucket: config.bucket, Key: key, Body: body, ContentType: contentType })
+        );
+        return true;
+      } catch (err) {
+        console.error(`${log} Upload of ${key} failed:`, err);
+        return false;
+      }
+    },
+
+    async get(key) {
+      try {
+        const res = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+        if (!res.Body) return null;
+        return {
+          body: Buffer.from(await res.Body.transformToByteArray()),
+          contentType: res.ContentType ?? 'application/octet-stream',
+        };
+      } catch (err) {
+        if (!isNotFound(err)) console.error(`${log} Read of ${key} failed:`, err);
+        return null;
+      }
+    },
+
+    async getSignedUrl(key, expiresInSeconds) {
+      try {
+        return await getSignedUrl(client, new GetObjectCommand({ Bucket: config.bucket, Key: key }), {
+          expiresIn: expiresInSeconds,
+        });
+      } catch (err) {
+        console.error(`${log} Signing ${key} failed:`, err);
+        return null;
+      }
+    },
+
+    async list(prefix) {
+      const objects: StoredObjectInfo[] = [];
+      let continuationToken: string | undefined;
+      try {
+        do {
+          const res = await client.send(
+            new ListObjectsV2Command({
+              Bucket: config.bucket,
+              Prefix: prefix,
+              ContinuationToken: continuationToken,
+            })
+          );
+          for (const item of res.Contents ?? []) {
+            if (item.Key && item.LastModified) objects.push({ key: item.Key, lastModified: item.LastModified });
+          }
+          continuationToken = res.IsTruncated ? res.NextContinuationToken : undefined;
+        } while (continuationToken);
+        return objects;
+      } catch (err) {
+        console.error(`${log} Listing ${prefix} failed:`, err);
+        return null;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+        return true;
+      } catch (err) {
+        console.error(`${log} Delete of ${key} failed:`, err);
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Storage types
+ * -------------
+ * The interface every storage backend (AWS S3, S3-compatible, local disk) implements.
+ * Keys are slash-separated paths such as voice/2026-01-31/<id>.ogg. Objects are
+ * private: readers get a short-lived signed URL, never a permanent public link.
+ */
+
+export type StorageBackendName = 's3' | 's3-compatible' | 'local';
+
+/** An object as returned by list(). */
+export interface StoredObjectInfo {
+  key: string;
+  lastModified: Date;
+}
+
+/** An object read back from storage. */
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  /** Stores an object, replacing any object with the same key. */
+  put(key: string, body: Buffer, contentType: string): Promise<boolean>;
+  /** Reads an object; null if it does not exist or could not be read. */
+  get(key: string): Promise<StoredObject | null>;
+  /** Time-limited URL anyone holding it can GET the object from; null on failure. */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+  /** Every object whose key starts with the prefix; null if listing failed. */
+  list(prefix: string): Promise<StoredObjectInfo[] | null>;
+  /** Removes an object; true if it is gone (including when it never existed). */
+  delete(key: string): Promise<boolean>;
+}
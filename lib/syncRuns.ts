@@ -0,0 +1,137 @@
+/**
+ * Sync Run History (server-only)
+ * ------------------------------
+ * Every sync run (scheduled, external cron or manual) gets a row in its own tab.
+ * Scheduled runs are keyed by date and type ("2026-10-19:morning"); a run is only
+ * started after its key has been claimed, so a restarted process or a second
+ * trigger does not send the same sync twice.
+ */
+
+import { appendTableRow, readTable, updateTableRow, type TableRow } from '@/lib/sheetTable';
+import type { SyncJobType } from '@/lib/syncs';
+
+/** Tab that holds the run history (override with SYNC_RUNS_TAB). */
+const RUNS_TAB = process.env.SYNC_RUNS_TAB?.trim() || 'SyncRuns';
+
+const RUN_COLUMNS = [
+  'Run Key',
+  'Sync Type',
+  'Trigger',
+  'Scheduled For',
+  'Started At',
+  'Finished At',
+  'Status',
+  'Message',
+] as const;
+
+type RunColumn = (typeof RUN_COLUMNS)[number];
+
+/** What started the run: the in-process timer, an external cron call, or a person on /cron-job. */
+export type RunTrigger = 'schedule' | 'external' | 'manual';
+
+export type RunStatus = 'running' | 'success' | 'failed';
+
+export interface SyncRun {
+  rowNumber: number;
+  key: string;
+  type: SyncJobType;
+  trigger: RunTrigger;
+  /** ISO timestamps; scheduledFor is empty for manual runs. */
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt: string;
+  status: RunStatus;
+  message: string;
+}
+
+function toRun(row: TableRow<RunColumn>): SyncRun {
+  const v = row.values;
+  return {
+    rowNumber: row.rowNumber,
+    key: v['Run Key'],
+    type: v['Sync Type'] as SyncJobType,
+    trigger: v['Trigger'] as RunTrigger,
+    scheduledFor: v['Scheduled For'],
+    startedAt: v['Started At'],
+    finishedAt: v['Finished At'],
+    status: v['Status'] as RunStatus,
+    message: v['Message'],
+  };
+}
+
+function toRecord(run: Omit<SyncRun, 'rowNumber'>): Record<RunColumn, string> {
+  return {
+    'Run Key': run.key,
+    'Sync Type': run.type,
+    'Trigger': run.trigger,
+    'Scheduled For': run.scheduledFor,
+    'Started At': run.startedAt,
+    'Finished At': run.finishedAt,
+    'Status': run.status,
+    'Message': run.message,
+  };
+}
+
+/**
+ * Reads the run history, newest first.
+ *
+ * @returns Runs, or null if the tab could not be read
+ */
+export async function listRuns(spreadsheetId: string, limit?: number): Promise<SyncRun[] | null> {
+  const rows = await readTable(spreadsheetId, RUNS_TAB, RUN_COLUMNS);
+  if (!rows) return null;
+  const runs = rows.map(toRun).reverse();
+  return limit != null ? runs.slice(0, limit) : runs;
+}
+
+/**
+ * Claims a run key by appending a "running" row. Returns the claimed run, or
+ * null if the key was already claimed (by this or another process) or the
+ * history could not be read.
+ */
+export async function claimRun(
+  spreadsheetId: string,
+  run: { key: string; type: SyncJobType; trigger: RunTrigger; scheduledFor?: Date }
+): Promise<SyncRun | null> {
+  const existing = await listRuns(spreadsheetId);
+  if (!existing) return null;
+  if (existing.some((r) => r.key === run.key)) return null;
+
+  const startedAt = new Date().toISOString();
+  const record = {
+    key: run.key,
+    type: run.type,
+    trigger: run.trigger,
+    scheduledFor: run.scheduledFor?.toISOString() ?? '',
+    startedAt,
+    finishedAt: '',
+    status: 'running' as const,
+    message: '',
+  };
+  if (!(await appendTableRow(spreadsheetId, RUNS_TAB, RUN_COLUMNS, toRecord(record)))) return null;
+
+  // Two triggers can append the same key at once; the earliest row wins.
+  const after = await listRuns(spreadsheetId);
+  const winner = after
+    ?.filter((r) => r.key === run.key)
+    .sort((a, b) => a.rowNumber - b.rowNumber)[0];
+  if (!winner || winner.startedAt !== startedAt || winner.trigger !== run.trigger) {
+    console.log(`[syncRuns] Run ${run.key} was claimed by another trigger`);
+    return null;
+  }
+  return winner;
+}
+
+/** Marks a claimed run as finished with its outcome. */
+export async function finishRun(
+  spreadsheetId: string,
+  run: SyncRun,
+  outcome: { success: boolean; message: string }
+): Promise<boolean> {
+  return updateTableRow(spreadsheetId, RUNS_TAB, RUN_COLUMNS, run.rowNumber, toRecord({
+    ...run,
+    finishedAt: new Date().toISOString(),
+    status: outcome.success ? 'success' : 'failed',
+    message: outcome.message,
+  }));
+}
@@ -0,0 +1,296 @@
+/**
+ * Daily Syncs (server-only)
+ * -------------------------
+ * The sync jobs behind /api/cron-job and the scheduler. Each runs over every
+ * worker row in the sheet (task in column B, Owner in column C), sending to
+ * each Owner's registered Telegram chat:
+ * - morning: the task as a voice message.
+ * - evening: a prompt asking for a status update on that task.
+ * Both are recorded in the deliveries tab, where the webhook tracks replies and
+ * the follow-up engine (lib/followUps.ts) reminds workers who stay silent.
+ * - evening-cutoff: flags workers who did not reply before the cutoff as "No update".
+ *   All prompts of an evening run share the scheduled cutoff time, so the one
+ *   cutoff run catches every worker of the run.
+ * Messages go out in each worker's preferred language, speaker and pace: the
+ * task is translated with Sarvam and wrapped in a localised intro. Every task
+ * message carries the status buttons from lib/bot/taskStatus.ts.
+ * Every outcome is appended to the message log (lib/messageLog.ts).
+ */
+
+import { readWorkerRows } from '@/lib/workers';
+import { getRegistrationsByOwner } from '@/lib/workerRegistry';
+import { resolveVoicePreferences, type WorkerLanguageCode } from '@/lib/voicePreferences';
+import {
+  listExpiredEveningDeliveries,
+  recordDelivery,
+  updateDelivery,
+  type SyncType,
+} from '@/lib/deliveries';
+import { appendLogEntries, type LogEntryInput } from '@/lib/messageLog';
+import { getEveningCutoff, localSyncDate } from '@/lib/schedule';
+import { synthesizeLongSpeech, translateText, type TtsOptions } from '@/lib/sarvam';
+import { OGG_OPUS_CONTENT_TYPE, transcodeToOggOpus } from '@/lib/audio/transcode';
+import { getOrCreateTts, ttsCacheParams } from '@/lib/ttsCache';
+import { sendTelegramMessage, sendTelegramVoice, type TelegramVoiceUpload } from '@/lib/telegram';
+import type { TelegramResult } from '@/lib/telegramClient';
+import type { TelegramMessage } from '@/lib/telegramTypes';
+import { taskStatusKeyboard } from '@/lib/bot/taskStatus';
+
+/** Sync jobs that can be run manually or by the scheduler. */
+export type SyncJobType = SyncType | 'evening-cutoff';
+
+/** Outcome of a sync job; `status` is the HTTP status the API route responds with. */
+export interface SyncOutcome {
+  success: boolean;
+  status: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/** Per-worker outcome of a sync run. */
+interface WorkerSyncResult {
+  owner: string;
+  status: 'sent' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+/** Turns TTS output (mp3) into an OGG/Opus voice note, or keeps the mp3 if transcoding fails. */
+async function toVoiceNote(mp3: Buffer, name: string): Promise<TelegramVoiceUpload> {
+  const ogg = await transcodeToOggOpus(mp3);
+  if (ogg) {
+    return {
+      audio: ogg.audio,
+      contentType: OGG_OPUS_CONTENT_TYPE,
+      filename: `${name}.ogg`,
+      durationSeconds: ogg.durationSeconds,
+    };
+  }
+  console.warn('[syncs] OGG/Opus transcoding failed, sending mp3');
+  return { audio: mp3, contentType: 'audio/mpeg', filename: `${name}.mp3` };
+}
+
+/** Intro wording per language; the evening text is also sent as text if TTS fails. */
+const MESSAGE_TEMPLATES: Record<
+  WorkerLanguageCode,
+  { morning: (owner: string, task: string) => string; evening: (owner: string, task: string) => string }
+> = {
+  'hi-IN': {
+    morning: (owner, task) => `नमस्ते ${owner}, आज आपका काम है    ${task}`,
+    evening: (owner, task) =>
+      `नमस्ते ${owner}, आज सुबह आपको यह काम मिला था: ${task}. ` +
+      'कृपया बताइए काम कितना पूरा हुआ — वॉइस या टेक्स्ट मैसेज में जवाब भेजिए।',
+  },
+  'mr-IN': {
+    morning: (owner, task) => `नमस्कार ${owner}, आजचे तुमचे काम आहे    ${task}`,
+    evening: (owner, task) =>
+      `नमस्कार ${owner}, आज सकाळी तुम्हाला हे काम मिळाले होते: ${task}. ` +
+      'कृपया काम किती पूर्ण झाले ते सांगा — व्हॉइस किंवा टेक्स्ट मेसेजने उत्तर पाठवा.',
+  },
+  'gu-IN': {
+    morning: (owner, task) => `નમસ્તે ${owner}, આજે તમારું કામ છે    ${task}`,
+    evening: (owner, task) =>
+      `નમસ્તે ${owner}, આજે સવારે તમને આ કામ મળ્યું હતું: ${task}. ` +
+      'કૃપા કરીને જણાવો કે કામ કેટલું પૂરું થયું — વૉઇસ અથવા ટેક્સ્ટ મેસેજમાં જવાબ મોકલો.',
+  },
+  'ta-IN': {
+    morning: (owner, task) => `வணக்கம் ${owner}, இன்று உங்கள் வேலை    ${task}`,
+    evening: (owner, task) =>
+      `வணக்கம் ${owner}, இன்று காலை உங்களுக்கு இந்த வேலை கொடுக்கப்பட்டது: ${task}. ` +
+      'வேலை எவ்வளவு முடிந்தது என்று குரல் அல்லது உரை செய்தியில் பதில் அனுப்புங்கள்.',
+  },
+  'en-IN': {
+    morning: (owner, task) => `Hello ${owner}, your task for today is    ${task}`,
+    evening: (owner, task) =>
+      `Hello ${owner}, this morning you were given this task: ${task}. ` +
+      'Please tell us how much of it is done — reply with a voice or text message.',
+  },
+};
+
+/**
+ * Task text in the worker's language. Falls back to the sheet text when
+ * translation fails, so the message still goes out.
+ */
+async function translateTask(task: string, languageCode: WorkerLanguageCode): Promise<string> {
+  const result = await translateText(task, languageCode);
+  if (result.ok) return result.data.translatedText;
+  console.warn(`[syncs] Translation to ${languageCode} failed, sending the task as written:`, result.error.message);
+  return task;
+}
+
+/**
+ * Sends the morning task or evening prompt to every registered worker with a task.
+ * Evening prompts are recorded as deliveries awaiting reply until the cutoff.
+ */
+async function runTaskSync(spreadsheetId: string, type: SyncType): Promise<SyncOutcome> {
+  // 1. Retrieve worker rows (task in B, Owner in C)
+  const workers = await readWorkerRows(spreadsheetId);
+  if (!workers || workers.length === 0) {
+    return {
+      success: false,
+      status: 400,
+      message: 'Sheet empty or no worker rows. Add tasks in column B and Owners in column C.',
+    };
+  }
+
+  const registrationsByOwner = await getRegistrationsByOwner(spreadsheetId);
+  if (!registrationsByOwner) {
+    return { success: false, status: 502, message: 'Could not read the worker registry.' };
+  }
+
+  const sentLabel = type === 'morning' ? 'Morning sync sent' : 'Evening update requested';
+  const results: WorkerSyncResult[] = [];
+  // All entries of one run share the run's timestamp (one column in the grid view)
+  const runAt = new Date().toISOString();
+  const logEntries: LogEntryInput[] = [];
+  const logStatus = (owner: string, chatId: string | undefined, text: string) =>
+    logEntries.push({ timestamp: runAt, owner, chatId, type: `${type}_sync`, text });
+  // The evening prompt has a reply cutoff shared by the whole run; the morning task is
+  // awaited for the rest of the day
+  const cutoffAt = type === 'evening' ? getEveningCutoff(new Date(runAt)).toISOString() : '';
+  // Buttons and deliveries carry the run's local date, the day the schedule runs on
+  const runDate = localSyncDate(new Date(runAt));
+
+  // 2. Send each worker their own task (or evening prompt), one at a time
+  for (const worker of workers) {
+    const registration = registrationsByOwner.get(worker.owner.toLowerCase());
+    const chatId = registration?.chatId;
+    const skip = (reason: string) => {
+      results.push({ owner: worker.owner, status: 'skipped', reason });
+      logStatus(worker.owner, chatId, `Skipped: ${reason}`);
+    };
+    const fail = (reason: string) => {
+      results.push({ owner: worker.owner, status: 'failed', reason });
+      logStatus(worker.owner, chatId, `Failed: ${reason}`);
+    };
+
+    if (!worker.task) {
+      skip('no task');
+      continue;
+    }
+    if (!registration || !chatId) {
+      skip('not registered');
+      continue;
+    }
+
+    // Translate the task and wrap it in the intro for the worker's language
+    const prefs = resolveVoicePreferences(registration);
+    const task = await translateTask(worker.task, prefs.languageCode);
+    const text = MESSAGE_TEMPLATES[prefs.languageCode][type](worker.owner, task);
+
+    // Convert to audio (TTS, chunked for long tasks, cached for repeats); the evening prompt
+    // falls back to a text message
+    const ttsOptions: TtsOptions = { languageCode: prefs.languageCode, speaker: prefs.speaker, pace: prefs.pace };
+    let ttsError = 'no audio';
+    const tts = await getOrCreateTts(ttsCacheParams(text, ttsOptions), async () => {
+      const result = await synthesizeLongSpeech(text, ttsOptions);
+      if (result.ok) return result.data;
+      ttsError = result.error.message;
+      return null;
+    });
+    const keyboard = taskStatusKeyboard(prefs.languageCode, runDate);
+    let sent: TelegramResult<TelegramMessage>;
+    if (tts) {
+      sent = await sendTelegramVoice(chatId, await toVoiceNote(tts.audio, `${type}-task`), keyboard);
+    } else if (type === 'evening') {
+      sent = await sendTelegramMessage(chatId, text, keyboard);
+    } else {
+      fail(`TTS failed (${ttsError})`);
+      continue;
+    }
+    if (!sent.ok) {
+      fail(`Telegram send failed (${sent.error.message})`);
+      continue;
+    }
+
+    const sentAt = new Date();
+    await recordDelivery(spreadsheetId, {
+      date: runDate,
+      syncType: type,
+      owner: worker.owner,
+      chatId,
+      task: worker.task,
+      sentAt: sentAt.toISOString(),
+      cutoffAt,
+      repliedAt: '',
+      status: 'awaiting reply',
+      messageId: String(sent.data.message_id),
+      remindersSent: 0,
+      escalatedAt: '',
+    });
+
+    results.push({ owner: worker.owner, status: 'sent' });
+    logStatus(worker.owner, chatId, sentLabel);
+  }
+
+  // 3. Append each worker's status to the message log
+  await appendLogEntries(spreadsheetId, logEntries);
+
+  const sent = results.filter((r) => r.status === 'sent').length;
+  const skipped = results.filter((r) => r.status === 'skipped').length;
+  const failed = results.filter((r) => r.status === 'failed').length;
+
+  return {
+    success: failed === 0,
+    status: 200,
+    message: `${type} sync completed: ${sent} sent, ${skipped} skipped, ${failed} failed.`,
+    details: { sent, skipped, failed, results },
+  };
+}
+
+/**
+ * Flags every evening delivery whose cutoff has passed without a reply as
+ * "no update", in the deliveries tab and in the message log.
+ */
+async function runEveningCutoff(spreadsheetId: string): Promise<SyncOutcome> {
+  const expired = await listExpiredEveningDeliveries(spreadsheetId, new Date());
+  if (!expired) {
+    return { success: false, status: 502, message: 'Could not read the deliveries tab.' };
+  }
+  if (expired.length === 0) {
+    return {
+      success: true,
+      status: 200,
+      message: 'No missing evening updates to flag.',
+      details: { flagged: 0, owners: [] },
+    };
+  }
+
+  const flaggedAt = new Date().toISOString();
+  const owners: string[] = [];
+  for (const delivery of expired) {
+    await updateDelivery(spreadsheetId, { ...delivery, status: 'no update' });
+    owners.push(delivery.owner);
+  }
+  await appendLogEntries(
+    spreadsheetId,
+    expired.map((d) => ({
+      timestamp: flaggedAt,
+      owner: d.owner,
+      chatId: d.chatId,
+      type: 'no_update' as const,
+      text: 'No update',
+    }))
+  );
+
+  return {
+    success: true,
+    status: 200,
+    message: `Flagged ${owners.length} worker(s) with no evening update: ${owners.join(', ')}.`,
+    details: { flagged: owners.length, owners },
+  };
+}
+
+/**
+ * Runs one sync job against the sheet in GOOGLE_SHEET_ID.
+ */
+export async function runSync(type: SyncJobType): Promise<SyncOutcome> {
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID?.trim();
+  if (!spreadsheetId) {
+    return { success: false, status: 503, message: 'GOOGLE_SHEET_ID not set.' };
+  }
+
+  if (type === 'evening-cutoff') {
+    return runEveningCutoff(spreadsheetId);
+  }
+  return runTaskSync(spreadsheetId, type);
+}
@@ -0,0 +1,164 @@
+/**
+ * Telegram Bot API helpers (server-only)
+ * --------------------------------------
+ * Shared pieces for talking to Telegram: the methods the bot uses (send a
+ * message or voice note, answer a button press, fetch files), built on the
+ * rate-limited client in lib/telegramClient.ts, and the webhook secret that
+ * Telegram echoes back in the X-Telegram-Bot-Api-Secret-Token header on every
+ * update. Sends return a TelegramResult with the sent message, so callers can
+ * reference it (message_id) later.
+ *
+ * Ref: https://core.telegram.org/bots/api#setwebhook
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { telegramRequest, type TelegramResult } from '@/lib/telegramClient';
+import type { TelegramMessage } from '@/lib/telegramTypes';
+
+/** Base URL for downloading files returned by getFile. */
+const TELEGRAM_FILE_URL = 'https://api.telegram.org/file/bot';
+
+/** Header Telegram sends with the secret_token given to setWebhook. */
+export const WEBHOOK_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+/** Inline keyboard attached to a message (reply_markup). */
+export interface InlineKeyboardMarkup {
+  inline_keyboard: { text: string; callback_data: string }[][];
+}
+
+/** Audio to send with sendVoice. */
+export interface TelegramVoiceUpload {
+  audio: Buffer;
+  contentType: string;
+  filename: string;
+  /** Seconds; Telegram shows it before the note is downloaded. */
+  durationSeconds?: number | null;
+}
+
+/**
+ * Secret Telegram must send with each webhook update (TELEGRAM_WEBHOOK_SECRET).
+ * Telegram allows 1-256 characters of A-Z, a-z, 0-9, _ and -.
+ */
+export function getWebhookSecret(): string | null {
+  return process.env.TELEGRAM_WEBHOOK_SECRET?.trim() || null;
+}
+
+/** Constant-time comparison of a provided secret with the expected one. */
+export function secretsMatch(provided: string | null | undefined, expected: string): boolean {
+  const a = Buffer.from(provided ?? '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Bot username, looked up once. */
+let botUsername: Promise<string | null> | null = null;
+
+/**
+ * The bot's @username without the @ (TELEGRAM_BOT_USERNAME, or asked from
+ * getMe once). Used to tell whether a group message is addressed to the bot.
+ *
+ * @returns The username, or null if it could not be found out
+ */
+export function getBotUsername(): Promise<string | null> {
+  const configured = process.env.TELEGRAM_BOT_USERNAME?.trim().replace(/^@/, '');
+  if (configured) return Promise.resolve(configured);
+  if (!botUsername) {
+    botUsername = telegramRequest<{ username?: string }>('getMe').then((res) => {
+      const username = res.ok ? res.data.username ?? null : null;
+      // Ask again next time rather than caching a failure
+      if (!username) botUsername = null;
+      return username;
+    });
+  }
+  return botUsername;
+}
+
+/**
+ * Stops the loading spinner on an inline button, optionally showing a short notice.
+ */
+export async function answerCallbackQuery(callbackQueryId: string, text?: string): Promise<boolean> {
+  const res = await telegramRequest<boolean>('answerCallbackQuery', {
+    callback_query_id: callbackQueryId,
+    ...(text ? { text } : {}),
+  });
+  return res.ok;
+}
+
+/**
+ * Sends a text message, optionally with an inline keyboard.
+ *
+ * @returns The sent message, or why it could not be sent
+ */
+export async function sendTelegramMessage(
+  chatId: number | string,
+  text: string,
+  replyMarkup?: InlineKeyboardMarkup
+): Promise<TelegramResult<TelegramMessage>> {
+  return telegramRequest<TelegramMessage>('sendMessage', {
+    chat_id: chatId,
+    text,
+    ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+  });
+}
+
+/**
+ * Sends audio as a voice message (sendVoice). OGG/Opus shows as a real voice
+ * note; other formats (e.g. mp3) play as audio.
+ *
+ * @returns The sent message, or why it could not be sent
+ */
+export async function sendTelegramVoice(
+  chatId: number | string,
+  voice: TelegramVoiceUpload,
+  replyMarkup?: InlineKeyboardMarkup
+): Promise<TelegramResult<TelegramMessage>> {
+  const formData = new FormData();
+  formData.append('chat_id', String(chatId));
+  formData.append('voice', new Blob([new Uint8Array(voice.audio)], { type: voice.contentType }), voice.filename);
+  if (voice.durationSeconds != null) formData.append('duration', String(voice.durationSeconds));
+  if (replyMarkup) formData.append('reply_markup', JSON.stringify(replyMarkup));
+  return telegramRequest<TelegramMessage>('sendVoice', formData);
+}
+
+/**
+ * Replaces the inline keyboard of a message the bot sent.
+ */
+export async function editTelegramReplyMarkup(
+  chatId: number | string,
+  messageId: number,
+  replyMarkup: InlineKeyboardMarkup
+): Promise<boolean> {
+  const res = await telegramRequest('editMessageReplyMarkup', {
+    chat_id: chatId,
+    message_id: messageId,
+    reply_markup: replyMarkup,
+  });
+  return res.ok;
+}
+
+/**
+ * Gets the file path for a Telegram file_id (e.g. voice message).
+ * Returns the path to download from (e.g. "voice/file_0.ogg") or null.
+ */
+export async function getTelegramFilePath(fileId: string): Promise<string | null> {
+  const res = await telegramRequest<{ file_path?: string }>('getFile', { file_id: fileId });
+  return res.ok ? res.data.file_path ?? null : null;
+}
+
+/**
+ * Downloads a file from Telegram by file path.
+ */
+export async function downloadTelegramFile(filePath: string): Promise<Buffer | null> {
+  const token = process.env.TELEGRAM_TOKEN;
+  if (!token) return null;
+  const url = `${TELEGRAM_FILE_URL}${token}/${filePath}`;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const arrayBuffer = await res.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  } catch (e) {
+    console.error('[telegram] download file error:', e);
+    return null;
+  }
+}
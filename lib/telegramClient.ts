@@ -0,0 +1,221 @@
+/**
+ * Telegram Bot API client (server-only)
+ * -------------------------------------
+ * The one place that calls Bot API methods. Requests aimed at a chat are
+ * queued to stay within Telegram's limits for bots (about 30 messages a
+ * second overall and 1 a second per chat). 429s are retried after the
+ * `parameters.retry_after` Telegram asks for, 5xx and network failures with
+ * exponential backoff. Every failure comes back as a typed TelegramError
+ * instead of being logged and dropped. Helpers for specific methods live in
+ * lib/telegram.ts.
+ *
+ * The queue is per process; several server instances share Telegram's limits
+ * between them.
+ *
+ * Ref: https://core.telegram.org/bots/faq#my-bot-is-hitting-limits-how-do-i-avoid-this
+ */
+
+const TELEGRAM_API_URL = 'https://api.telegram.org/bot';
+
+/** Default per-attempt timeout (TELEGRAM_TIMEOUT_MS); voice uploads can take a while. */
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Default retries after the first attempt (TELEGRAM_MAX_RETRIES). */
+const DEFAULT_MAX_RETRIES = 3;
+
+/** First backoff delay for 5xx and network failures; doubles on each retry. */
+const BASE_BACKOFF_MS = 1_000;
+
+/** Longer retry_after waits are not sat out; the request fails instead. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** Spacing between any two chat requests (30 per second). */
+const GLOBAL_INTERVAL_MS = Math.ceil(1000 / 30);
+
+/** Spacing between two requests to the same chat. */
+const CHAT_INTERVAL_MS = 1_000;
+
+/**
+ * - not_configured:   TELEGRAM_TOKEN is missing
+ * - api:              Telegram answered ok: false (see errorCode and message)
+ * - timeout:          no answer within the timeout
+ * - network:          the request could not be sent or read
+ * - invalid_response: the body was not a Bot API response
+ */
+export type TelegramErrorCode = 'not_configured' | 'api' | 'timeout' | 'network' | 'invalid_response';
+
+export interface TelegramError {
+  code: TelegramErrorCode;
+  message: string;
+  /** Telegram's error_code (usually the HTTP status), for code "api". */
+  errorCode?: number;
+  /** Seconds Telegram asked us to wait, for 429s. */
+  retryAfter?: number;
+  /** Whether trying again later may succeed. */
+  retryable: boolean;
+}
+
+/** Result of a Bot API call: the method's result, or why it failed. */
+export type TelegramResult<T> = { ok: true; data: T } | { ok: false; error: TelegramError };
+
+export interface TelegramRequestOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+/** Bot API response envelope. */
+interface TelegramEnvelope<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function telegramFailure<T>(
+  code: TelegramErrorCode,
+  message: string,
+  errorCode?: number,
+  retryAfter?: number
+): TelegramResult<T> {
+  const retryable =
+    code === 'timeout' || code === 'network' || (errorCode != null && (errorCode === 429 || errorCode >= 500));
+  return { ok: false, error: { code, message, errorCode, retryAfter, retryable } };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting: each chat request reserves a send time up front, so callers
+// queue in the order they asked without a background worker.
+// ---------------------------------------------------------------------------
+
+/** Reserved send times (ms) within the last second and ahead, ascending. */
+const reservedSlots: number[] = [];
+
+/** chat id -> earliest time (ms) the next request to it may go out. */
+const chatNextSlot = new Map<string, number>();
+
+/** Set by a 429 without a chat: nothing goes out before this. */
+let pausedUntil = 0;
+
+/** Reserves the earliest send time that respects the global and per-chat spacing. */
+function reserveSlot(chatId: string): number {
+  const now = Date.now();
+  while (reservedSlots.length > 0 && reservedSlots[0] < now - 1000) reservedSlots.shift();
+  if (chatNextSlot.size > 1000) {
+    for (const [id, at] of Array.from(chatNextSlot)) if (at < now) chatNextSlot.delete(id);
+  }
+
+  let slot = Math.max(now, pausedUntil, chatNextSlot.get(chatId) ?? 0);
+  let insertAt = reservedSlots.length;
+  for (let i = 0; i < reservedSlots.length; i++) {
+    const reserved = reservedSlots[i];
+    if (reserved <= slot - GLOBAL_INTERVAL_MS) continue;
+    if (reserved >= slot + GLOBAL_INTERVAL_MS) {
+      insertAt = i;
+      break;
+    }
+    slot = reserved + GLOBAL_INTERVAL_MS;
+  }
+  reservedSlots.splice(insertAt, 0, slot);
+  chatNextSlot.set(chatId, slot + CHAT_INTERVAL_MS);
+  return slot;
+}
+
+/** Waits for this request's turn to the chat. */
+async function waitForSlot(chatId: string): Promise<void> {
+  const delay = reserveSlot(chatId) - Date.now();
+  if (delay > 0) await sleep(delay);
+}
+
+/** Holds back further requests to the chat (or all chats) after a 429. */
+function backOff(chatId: string | null, ms: number): void {
+  const until = Date.now() + ms;
+  if (chatId) chatNextSlot.set(chatId, Math.max(chatNextSlot.get(chatId) ?? 0, until));
+  else pausedUntil = Math.max(pausedUntil, until);
+}
+
+/** The chat a request is aimed at, if any. */
+function targetChat(params: Record<string, unknown> | FormData): string | null {
+  const chatId = params instanceof FormData ? params.get('chat_id') : params.chat_id;
+  return chatId != null && chatId !== '' ? String(chatId) : null;
+}
+
+/**
+ * Calls a Bot API method. Requests with a chat_id wait for their rate-limit
+ * slot; failures are retried as described above.
+ *
+ * @param method - Bot API method, e.g. "sendMessage"
+ * @param params - JSON-serialisable parameters, or FormData for file uploads
+ */
+export async function telegramRequest<T>(
+  method: string,
+  params: Record<string, unknown> | FormData = {},
+  options: TelegramRequestOptions = {}
+): Promise<TelegramResult<T>> {
+  const token = process.env.TELEGRAM_TOKEN?.trim();
+  if (!token) return telegramFailure('not_configured', 'TELEGRAM_TOKEN is not set.');
+
+  const timeoutMs = options.timeoutMs ?? envNumber('TELEGRAM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const maxRetries = options.maxRetries ?? envNumber('TELEGRAM_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+  const isForm = params instanceof FormData;
+  const chatId = targetChat(params);
+
+  let result: TelegramResult<T> = telegramFailure('network', 'Request was not sent.');
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (chatId) await waitForSlot(chatId);
+    try {
+      const res = await fetch(`${TELEGRAM_API_URL}${token}/${method}`, {
+        method: 'POST',
+        headers: isForm ? {} : { 'Content-Type': 'application/json' },
+        body: isForm ? params : JSON.stringify(params),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      let body: TelegramEnvelope<T> | null = null;
+      try {
+        body = (await res.json()) as TelegramEnvelope<T>;
+      } catch {
+        body = null;
+      }
+      if (body?.ok) return { ok: true, data: body.result as T };
+      const errorCode = body?.error_code ?? res.status;
+      if (body) {
+        const description = body.description ?? 'no description';
+        const retryAfter = body.parameters?.retry_after;
+        result = telegramFailure('api', `${method} failed (${errorCode}): ${description}`, errorCode, retryAfter);
+      } else if (res.status >= 500) {
+        // Proxies in front of Telegram can answer 5xx with an HTML page
+        result = telegramFailure('api', `${method} failed (${res.status}).`, res.status);
+      } else {
+        result = telegramFailure('invalid_response', `${method} returned a body that is not JSON (${res.status}).`);
+      }
+    } catch (err) {
+      const timedOut = err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+      result = timedOut
+        ? telegramFailure('timeout', `${method} timed out after ${timeoutMs} ms.`)
+        : telegramFailure('network', `${method} request failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (result.ok || !result.error.retryable || attempt === maxRetries) break;
+    const retryAfterMs = result.error.retryAfter != null ? result.error.retryAfter * 1000 : null;
+    if (retryAfterMs != null && retryAfterMs > MAX_RETRY_AFTER_MS) break;
+    const delay = retryAfterMs ?? BASE_BACKOFF_MS * 2 ** attempt;
+    if (retryAfterMs != null) {
+      // Flood control: later requests to the chat wait too, not only this retry
+      backOff(chatId, retryAfterMs);
+    }
+    console.warn(`[telegramClient] ${result.error.message} Retrying in ${Math.round(delay)} ms`);
+    if (!chatId || retryAfterMs == null) await sleep(delay);
+  }
+
+  if (!result.ok) console.error('[telegramClient]', result.error.message);
+  return result;
+}
@@ -0,0 +1,116 @@
+/**
+ * Telegram Bot API types
+ * ----------------------
+ * The parts of the Bot API objects the bot reads. Fields Telegram may omit are
+ * optional; everything else is left out.
+ *
+ * Ref: https://core.telegram.org/bots/api#available-types
+ */
+
+export interface TelegramUser {
+  id: number;
+  is_bot?: boolean;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+}
+
+export type TelegramChatType = 'private' | 'group' | 'supergroup' | 'channel';
+
+export interface TelegramChat {
+  id: number;
+  type: TelegramChatType;
+  title?: string;
+  username?: string;
+}
+
+/** A file as Telegram describes it (voice, photo size, document, ...). */
+export interface TelegramFile {
+  file_id: string;
+  file_unique_id?: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+  width?: number;
+  height?: number;
+  /** Seconds (voice, audio, video notes). */
+  duration?: number;
+  /** Side length of a (square) video note. */
+  length?: number;
+}
+
+export interface TelegramLocation {
+  latitude: number;
+  longitude: number;
+  /** Radius of uncertainty, metres. */
+  horizontal_accuracy?: number;
+  /** Set for live locations. */
+  live_period?: number;
+}
+
+export interface TelegramMessageEntity {
+  type: string;
+  offset: number;
+  length: number;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  /** Unix seconds. */
+  date: number;
+  /** Unix seconds; set on edited messages. */
+  edit_date?: number;
+  chat: TelegramChat;
+  /** Missing for channel posts. */
+  from?: TelegramUser;
+  text?: string;
+  entities?: TelegramMessageEntity[];
+  caption?: string;
+  caption_entities?: TelegramMessageEntity[];
+  voice?: TelegramFile;
+  /** Available sizes, smallest first. */
+  photo?: TelegramFile[];
+  document?: TelegramFile;
+  video_note?: TelegramFile;
+  audio?: TelegramFile;
+  location?: TelegramLocation;
+  reply_to_message?: TelegramMessage;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  /** The message with the button; missing for inline-mode messages. */
+  message?: TelegramMessage;
+  /** callback_data of the pressed button. */
+  data?: string;
+}
+
+/** One webhook update; at most one of the optional fields is set. */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  edited_message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+  edited_channel_post?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+/** The update kinds the bot distinguishes, with the object each one carries. */
+export type TypedUpdate =
+  | { kind: 'message'; message: TelegramMessage }
+  | { kind: 'edited_message'; message: TelegramMessage }
+  | { kind: 'channel_post'; message: TelegramMessage }
+  | { kind: 'edited_channel_post'; message: TelegramMessage }
+  | { kind: 'callback_query'; callbackQuery: TelegramCallbackQuery }
+  | { kind: 'unsupported' };
+
+/** Narrows an update to the kind it carries. */
+export function classifyUpdate(update: TelegramUpdate): TypedUpdate {
+  if (update.message) return { kind: 'message', message: update.message };
+  if (update.edited_message) return { kind: 'edited_message', message: update.edited_message };
+  if (update.channel_post) return { kind: 'channel_post', message: update.channel_post };
+  if (update.edited_channel_post) return { kind: 'edited_channel_post', message: update.edited_channel_post };
+  if (update.callback_query) return { kind: 'callback_query', callbackQuery: update.callback_query };
+  return { kind: 'unsupported' };
+}
@@ -0,0 +1,221 @@
+/**
+ * TTS audio cache (server-only)
+ * -----------------------------
+ * Generated speech is stored in the storage layer (lib/storage) under a hash
+ * of everything that affects the audio: text, speaker, model, language, pace,
+ * sample rate and format. The same task read out every morning, or the same
+ * row played again in /sheet-view, is then served without calling Sarvam.
+ * Entries expire after TTS_CACHE_TTL_HOURS. The entry index and hit/miss
+ * counters live in the JSON store.
+ */
+
+import { createHash } from 'crypto';
+import { readJson, writeJson } from '@/lib/jsonStore';
+import { getStorage } from '@/lib/storage';
+import { SARVAM_DEFAULTS, type TtsOptions } from '@/lib/sarvam';
+
+const STORE_NAME = 'tts-cache';
+
+/** Storage key prefix for cached audio. */
+const CACHE_PREFIX = 'tts-cache/';
+
+/** Everything that changes the generated audio. */
+export interface TtsCacheParams {
+  text: string;
+  languageCode: string;
+  speaker: string;
+  model: string;
+  pace: number;
+  sampleRate: number;
+  /** Output format as the caller asked for it (mp3, wav, ogg_opus, ...). */
+  format: string;
+}
+
+/** Audio to put in the cache. */
+export interface GeneratedAudio {
+  audio: Buffer;
+  contentType: string;
+  durationSeconds?: number | null;
+}
+
+export interface CachedAudio extends GeneratedAudio {
+  /** Storage key of the cached object; null when the audio could not be cached. */
+  key: string | null;
+  /** true when served from the cache. */
+  hit: boolean;
+}
+
+interface CacheEntry {
+  key: string;
+  contentType: string;
+  durationSeconds?: number | null;
+  /** ms since epoch. */
+  createdAt: number;
+}
+
+export interface TtsCacheStats {
+  hits: number;
+  misses: number;
+  /** Misses because the entry had expired. */
+  expired: number;
+  /** Generated audio that could not be stored. */
+  storeFailures: number;
+  entries: number;
+  /** ISO time the counters started. */
+  since: string;
+}
+
+interface CacheState {
+  entries: Record<string, CacheEntry>;
+  stats: Omit<TtsCacheStats, 'entries'>;
+}
+
+/** Loaded from disk once, on first use. */
+let state: Promise<CacheState> | null = null;
+
+function load(): Promise<CacheState> {
+  if (!state) {
+    state = readJson<CacheState | null>(STORE_NAME, null).then(
+      (stored) =>
+        stored ?? {
+          entries: {},
+          stats: { hits: 0, misses: 0, expired: 0, storeFailures: 0, since: new Date().toISOString() },
+        }
+    );
+  }
+  return state;
+}
+
+function save(current: CacheState): Promise<boolean> {
+  return writeJson(STORE_NAME, current);
+}
+
+/** Entry lifetime (TTS_CACHE_TTL_HOURS, default 168 = one week). */
+function getTtlMs(): number {
+  const hours = Number(process.env.TTS_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 60 * 60 * 1000;
+}
+
+/** True unless TTS_CACHE_ENABLED=false. */
+function isCacheEnabled(): boolean {
+  return process.env.TTS_CACHE_ENABLED?.trim() !== 'false';
+}
+
+/**
+ * Cache params for a TTS request, with Sarvam defaults filled in so equal
+ * requests hash the same whether or not options were spelled out.
+ */
+export function ttsCacheParams(text: string, options: TtsOptions = {}): TtsCacheParams {
+  const defaults = SARVAM_DEFAULTS.tts;
+  return {
+    text: text.trim(),
+    languageCode: options.languageCode ?? defaults.languageCode,
+    speaker: options.speaker ?? defaults.speaker,
+    model: options.model ?? defaults.model,
+    pace: options.pace ?? defaults.pace,
+    sampleRate: options.sampleRate ?? defaults.sampleRate,
+    format: options.outputFormat ?? defaults.outputFormat,
+  };
+}
+
+function cacheHash(params: TtsCacheParams): string {
+  const { text, languageCode, speaker, model, pace, sampleRate, format } = params;
+  return createHash('sha256')
+    .update(JSON.stringify([text, languageCode, speaker, model, pace, sampleRate, format]))
+    .digest('hex');
+}
+
+function extensionFor(format: string): string {
+  return format === 'ogg_opus' ? 'ogg' : format;
+}
+
+/**
+ * Returns cached audio for the params, or runs `generate` and caches its result.
+ * When storage is not configured (or TTS_CACHE_ENABLED=false) it just generates.
+ *
+ * @returns The audio, or null if it was not cached and `generate` returned null
+ */
+export async function getOrCreateTts(
+  params: TtsCacheParams,
+  generate: () => Promise<GeneratedAudio | null>
+): Promise<CachedAudio | null> {
+  const storage = getStorage();
+  if (!storage || !isCacheEnabled()) {
+    const generated = await generate();
+    return generated ? { ...generated, key: null, hit: false } : null;
+  }
+
+  const current = await load();
+  const hash = cacheHash(params);
+  const entry = current.entries[hash];
+  const isExpired = entry != null && Date.now() - entry.createdAt >= getTtlMs();
+  if (entry && !isExpired) {
+    const object = await storage.get(entry.key);
+    if (object) {
+      current.stats.hits++;
+      await save(current);
+      return {
+        audio: object.body,
+        contentType: entry.contentType,
+        durationSeconds: entry.durationSeconds,
+        key: entry.key,
+        hit: true,
+      };
+    }
+  }
+
+  current.stats.misses++;
+  if (isExpired) current.stats.expired++;
+  const generated = await generate();
+  if (!generated) {
+    await save(current);
+    return null;
+  }
+
+  const key = `${CACHE_PREFIX}${hash}.${extensionFor(params.format)}`;
+  const stored = await storage.put(key, generated.audio, generated.contentType);
+  if (stored) {
+    current.entries[hash] = {
+      key,
+      contentType: generated.contentType,
+      durationSeconds: generated.durationSeconds,
+      createdAt: Date.now(),
+    };
+  } else {
+    current.stats.storeFailures++;
+  }
+  await save(current);
+  return { ...generated, key: stored ? key : null, hit: false };
+}
+
+/** Hit/miss counters and the number of live entries. */
+export async function getTtsCacheStats(): Promise<TtsCacheStats> {
+  const current = await load();
+  return { ...current.stats, entries: Object.keys(current.entries).length };
+}
+
+/**
+ * Deletes expired entries from storage and the index.
+ *
+ * @returns Number of entries removed
+ */
+export async function pruneTtsCache(now: Date = new Date()): Promise<number> {
+  const storage = getStorage();
+  if (!storage) return 0;
+
+  const current = await load();
+  const ttl = getTtlMs();
+  let removed = 0;
+  for (const [hash, entry] of Object.entries(current.entries)) {
+    if (now.getTime() - entry.createdAt < ttl) continue;
+    if (await storage.delete(entry.key)) {
+      delete current.entries[hash];
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    await save(current);
+    console.log(`[ttsCache] Pruned ${removed} expired entries`);
+  }
+  return removed;
+}
@@ -0,0 +1,109 @@
+/**
+ * Worker voice preferences
+ * ------------------------
+ * Language, speaker and pace used for the messages a worker receives. Stored
+ * per worker in the registry (lib/workerRegistry.ts); blank values fall back
+ * to WORKER_DEFAULT_LANGUAGE and the Sarvam TTS defaults.
+ */
+
+import { SARVAM_DEFAULTS, TTS_MODEL_SPEAKERS } from '@/lib/sarvam/defaults';
+
+/** Languages the crew speaks; outgoing task text is translated into these. */
+export const WORKER_LANGUAGES = [
+  { code: 'hi-IN', name: 'Hindi', aliases: ['hi', 'hindi', 'हिंदी', 'हिन्दी'] },
+  { code: 'mr-IN', name: 'Marathi', aliases: ['mr', 'marathi', 'मराठी'] },
+  { code: 'gu-IN', name: 'Gujarati', aliases: ['gu', 'gujarati', 'ગુજરાતી'] },
+  { code: 'ta-IN', name: 'Tamil', aliases: ['ta', 'tamil', 'தமிழ்'] },
+  { code: 'en-IN', name: 'English', aliases: ['en', 'english'] },
+] as const;
+
+export type WorkerLanguageCode = (typeof WORKER_LANGUAGES)[number]['code'];
+
+export const MIN_PACE = 0.5;
+export const MAX_PACE = 2;
+
+/** Preferences as stored; empty strings mean "use the default". */
+export interface VoicePreferences {
+  language: string;
+  speaker: string;
+  pace: string;
+}
+
+/** Preferences with defaults filled in, ready for translation and TTS. */
+export interface ResolvedVoicePreferences {
+  languageCode: WorkerLanguageCode;
+  speaker: string;
+  pace: number;
+}
+
+/**
+ * Finds a supported language by code ("hi", "hi-IN") or name ("Hindi", "हिंदी").
+ *
+ * @returns The BCP-47 code, or null if the language is not supported
+ */
+export function parseLanguage(input: string): WorkerLanguageCode | null {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+  const match = WORKER_LANGUAGES.find(
+    (l) => l.code.toLowerCase() === value || (l.aliases as readonly string[]).includes(value)
+  );
+  return match?.code ?? null;
+}
+
+/** Display name for a language code, e.g. "Marathi". */
+export function languageName(code: string): string {
+  return WORKER_LANGUAGES.find((l) => l.code === code)?.name ?? code;
+}
+
+/** Language for workers without a preference (WORKER_DEFAULT_LANGUAGE, default hi-IN). */
+export function getDefaultWorkerLanguage(): WorkerLanguageCode {
+  return parseLanguage(process.env.WORKER_DEFAULT_LANGUAGE ?? '') ?? 'hi-IN';
+}
+
+/**
+ * Parses a speech pace.
+ *
+ * @returns The pace, or null unless it is a number from MIN_PACE to MAX_PACE
+ */
+export function parsePace(input: string): number | null {
+  if (!input.trim()) return null;
+  const pace = Number(input);
+  return Number.isFinite(pace) && pace >= MIN_PACE && pace <= MAX_PACE ? pace : null;
+}
+
+/**
+ * Speakers of the configured TTS model (SARVAM_TTS_MODEL). SARVAM_TTS_SPEAKERS
+ * (comma list) replaces the built-in list, e.g. when Sarvam adds voices.
+ *
+ * @returns The speaker names, or an empty list if the model's speakers are not known
+ */
+export function getAvailableSpeakers(): string[] {
+  const configured = (process.env.SARVAM_TTS_SPEAKERS ?? '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  if (configured.length > 0) return configured;
+  return [...(TTS_MODEL_SPEAKERS[SARVAM_DEFAULTS.tts.model] ?? [])];
+}
+
+/**
+ * Normalises a Sarvam speaker name (e.g. "Ratan" -> "ratan").
+ *
+ * @returns The speaker, or null unless the configured TTS model has that speaker
+ *   (any name of lowercase letters when the model's speakers are not known)
+ */
+export function parseSpeaker(input: string): string | null {
+  const speaker = input.trim().toLowerCase();
+  if (!/^[a-z]{2,30}$/.test(speaker)) return null;
+  const speakers = getAvailableSpeakers();
+  return speakers.length === 0 || speakers.includes(speaker) ? speaker : null;
+}
+
+/** Fills in defaults for blank or invalid stored preferences. */
+export function resolveVoicePreferences(prefs: Partial<VoicePreferences> = {}): ResolvedVoicePreferences {
+  return {
+    languageCode: parseLanguage(prefs.language ?? '') ?? getDefaultWorkerLanguage(),
+    speaker: parseSpeaker(prefs.speaker ?? '') ?? SARVAM_DEFAULTS.tts.speaker,
+    pace: parsePace(prefs.pace ?? '') ?? SARVAM_DEFAULTS.tts.pace,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Worker Registry (server-only)
+ * -----------------------------
+ * Persistent mapping from a Telegram user (and the chat we reply in) to the
+ * Owner name used in the main sheet. Stored in its own tab so admins can see
+ * and correct it. Workers add themselves with `/register <Owner name>`. Each
+ * entry also holds the worker's voice preferences (lib/voicePreferences.ts).
+ */
+
+import { appendTableRow, clearTableRow, readTable, updateTableRow } from '@/lib/sheetTable';
+import type { VoicePreferences } from '@/lib/voicePreferences';
+
+/** Tab that holds the registry (override with WORKER_REGISTRY_TAB). */
+const REGISTRY_TAB = process.env.WORKER_REGISTRY_TAB?.trim() || 'Workers';
+
+const REGISTRY_COLUMNS = [
+  'Owner',
+  'Telegram User ID',
+  'Chat ID',
+  'Telegram Name',
+  'Registered At',
+  'Language',
+  'Speaker',
+  'Pace',
+] as const;
+
+export interface WorkerRegistration extends VoicePreferences {
+  /** 1-based row in the registry tab; used to edit or remove the entry. */
+  rowNumber: number;
+  owner: string;
+  telegramUserId: string;
+  chatId: string;
+  telegramName: string;
+  registeredAt: string;
+}
+
+/**
+ * Fields a caller provides when adding or editing a registration. Omitted
+ * preferences keep their current value.
+ */
+export type WorkerRegistrationInput = Omit<WorkerRegistration, 'rowNumber' | 'registeredAt' | keyof VoicePreferences> &
+  Partial<VoicePreferences>;
+
+/**
+ * Reads all registrations.
+ *
+ * @returns Registrations, or null if the registry tab could not be read
+ */
+export async function listRegistrations(spreadsheetId: string): Promise<WorkerRegistration[] | null> {
+  const rows = await readTable(spreadsheetId, REGISTRY_TAB, REGISTRY_COLUMNS);
+  if (!rows) return null;
+  return rows
+    .filter((r) => r.values['Owner'] && r.values['Chat ID'])
+    .map((r) => ({
+      rowNumber: r.rowNumber,
+      owner: r.values['Owner'],
+      telegramUserId: r.values['Telegram User ID'],
+      chatId: r.values['Chat ID'],
+      telegramName: r.values['Telegram Name'],
+      registeredAt: r.values['Registered At'],
+      language: r.values['Language'],
+      speaker: r.values['Speaker'],
+      pace: r.values['Pace'],
+    }));
+}
+
+/** Finds the registration for a Telegram user id. */
+export async function findRegistrationByUserId(
+  spreadsheetId: string,
+  telegramUserId: number | string
+): Promise<WorkerRegistration | null> {
+  const all = await listRegistrations(spreadsheetId);
+  return all?.find((r) => r.telegramUserId === String(telegramUserId)) ?? null;
+}
+
+/** Finds the registration for an Owner (case-insensitive). */
+export async function findRegistrationByOwner(
+  spreadsheetId: string,
+  owner: string
+): Promise<WorkerRegistration | null> {
+  const normalized = owner.trim().toLowerCase();
+  const all = await listRegistrations(spreadsheetId);
+  return all?.find((r) => r.owner.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Owner (lowercased) -> chat id for every registered worker.
+ *
+ * @returns The map, or null if the registry tab could not be read
+ */
+export async function getChatIdsByOwner(spreadsheetId: string): Promise<Map<string, string> | null> {
+  const all = await listRegistrations(spreadsheetId);
+  if (!all) return null;
+  return new Map(all.map((r) => [r.owner.toLowerCase(), r.chatId]));
+}
+
+/**
+ * Owner (lowercased) -> registration for every registered worker.
+ *
+ * @returns The map, or null if the registry tab could not be read
+ */
+export async function getRegistrationsByOwner(
+  spreadsheetId: string
+): Promise<Map<string, WorkerRegistration> | null> {
+  const all = await listRegistrations(spreadsheetId);
+  if (!all) return null;
+  return new Map(all.map((r) => [r.owner.toLowerCase(), r]));
+}
+
+/**
+ * Adds a registration, or replaces the existing one for the same Telegram user.
+ * When rowNumber is given, that row is edited instead (admin edits).
+ */
+export async function upsertRegistration(
+  spreadsheetId: string,
+  input: WorkerRegistrationInput,
+  rowNumber?: number
+): Promise<boolean> {
+  const telegramUserId = input.telegramUserId.trim();
+  const all = await listRegistrations(spreadsheetId);
+  const existing =
+    rowNumber != null
+      ? all?.find((r) => r.rowNumber === rowNumber)
+      : telegramUserId
+        ? all?.find((r) => r.telegramUserId === telegramUserId)
+        : undefined;
+
+  const record = {
+    'Owner': input.owner.trim(),
+    'Telegram User ID': telegramUserId,
+    'Chat ID': input.chatId.trim(),
+    'Telegram Name': input.telegramName.trim(),
+    'Registered At': new Date().toISOString(),
+    'Language': (input.language ?? existing?.language ?? '').trim(),
+    'Speaker': (input.speaker ?? existing?.speaker ?? '').trim(),
+    'Pace': (input.pace ?? existing?.pace ?? '').trim(),
+  };
+
+  const targetRow = rowNumber ?? existing?.rowNumber;
+  if (targetRow != null) {
+    return updateTableRow(spreadsheetId, REGISTRY_TAB, REGISTRY_COLUMNS, targetRow, record);
+  }
+  return appendTableRow(spreadsheetId, REGISTRY_TAB, REGISTRY_COLUMNS, record);
+}
+
+/**
+ * Updates the voice preferences of a registered Telegram user; fields not
+ * given are left as they are.
+ *
+ * @returns false if the user is not registered or the row could not be written
+ */
+export async function updateVoicePreferences(
+  spreadsheetId: string,
+  telegramUserId: number | string,
+  prefs: Partial<VoicePreferences>
+): Promise<boolean> {
+  const registration = await findRegistrationByUserId(spreadsheetId, telegramUserId);
+  if (!registration) return false;
+  return updateTableRow(spreadsheetId, REGISTRY_TAB, REGISTRY_COLUMNS, registration.rowNumber, {
+    'Owner': registration.owner,
+    'Telegram User ID': registration.telegramUserId,
+    'Chat ID': registration.chatId,
+    'Telegram Name': registration.telegramName,
+    'Registered At': registration.registeredAt,
+    'Language': prefs.language ?? registration.language,
+    'Speaker': prefs.speaker ?? registration.speaker,
+    'Pace': prefs.pace ?? registration.pace,
+  });
+}
+
+/** Removes the registration on the given registry row. */
+export async function removeRegistration(spreadsheetId: string, rowNumber: number): Promise<boolean> {
+  return clearTableRow(spreadsheetId, REGISTRY_TAB, REGISTRY_COLUMNS, rowNumber);
+}
@@ -0,0 +1,156 @@
+/**
+ * Worker rows (server-only)
+ * -------------------------
+ * The main sheet has one row per worker: column B holds that worker's task and
+ * column C the Owner name. Other columns are found by their heading in row 1
+ * and added after the last used column when missing, so older columns (such
+ * as dated message columns) are never overwritten: "Task Status" and "Status
+ * Updated At" hold the status the worker last chose with the buttons under
+ * their task message, and when; more columns hold answers collected by
+ * conversation flows. This module reads and updates those rows; which Telegram
+ * chat belongs to each Owner lives in the worker registry (lib/workerRegistry.ts).
+ */
+
+import { readSheet, updateSheet } from '@/lib/googleSheets';
+import { columnLetter } from '@/lib/sheetTable';
+
+/** Column index for the task text (column B). */
+export const TASK_COLUMN_INDEX = 1;
+
+/** Column index for Owner (column C). */
+export const OWNER_COLUMN_INDEX = 2;
+
+/** Heading of the column holding the task status the worker chose. */
+export const STATUS_HEADING = 'Task Status';
+
+/** Heading of the column holding when the status was set. */
+export const STATUS_UPDATED_HEADING = 'Status Updated At';
+
+/** Worker rows with every column, so the status columns can be found by heading; row 1 is the header. */
+const WORKER_ROWS_RANGE = 'A1:ZZ200';
+
+/** Header row, searched for columns by heading. */
+const HEADER_RANGE = 'A1:ZZ1';
+
+export interface WorkerRow {
+  /** 0-based index into the sheet rows (row 1 = index 0). */
+  rowIndex: number;
+  owner: string;
+  task: string;
+  /** Task status chosen by the worker (e.g. "Done"), empty if none yet. */
+  status: string;
+  /** ISO timestamp of the status, empty if none yet. */
+  statusUpdatedAt: string;
+}
+
+/**
+ * Reads every data row (row 2 onwards) that has an Owner.
+ * Rows without an Owner are not workers and are left out.
+ *
+ * @returns Worker rows, or null if the sheet could not be read
+ */
+export async function readWorkerRows(spreadsheetId: string): Promise<WorkerRow[] | null> {
+  const rows = await readSheet(spreadsheetId, WORKER_ROWS_RANGE);
+  if (!rows) return null;
+
+  const headings = (rows[0] ?? []).map((h) => h.trim().toLowerCase());
+  const statusIndex = headings.indexOf(STATUS_HEADING.toLowerCase());
+  const statusUpdatedIndex = headings.indexOf(STATUS_UPDATED_HEADING.toLowerCase());
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+
+  const workers: WorkerRow[] = [];
+  for (let i = 1; i < rows.length; i++) {
+    const owner = (rows[i][OWNER_COLUMN_INDEX] ?? '').trim();
+    if (!owner) continue;
+    workers.push({
+      rowIndex: i,
+      owner,
+      task: (rows[i][TASK_COLUMN_INDEX] ?? '').trim(),
+      status: cell(rows[i], statusIndex),
+      statusUpdatedAt: cell(rows[i], statusUpdatedIndex),
+    });
+  }
+  return workers;
+}
+
+/**
+ * Finds the worker row whose Owner matches the given name (case-insensitive).
+ */
+export function findWorkerByOwner(workers: WorkerRow[], owner: string): WorkerRow | null {
+  const normalized = owner.trim().toLowerCase();
+  return workers.find((w) => w.owner.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Writes values into a worker's row by column heading (row 1, case-insensitive).
+ * Headings that do not exist yet are added after the last used column; headings
+ * `isReserved` rejects are skipped (and make the result false).
+ */
+async function writeRowByHeading(
+  spreadsheetId: string,
+  worker: WorkerRow,
+  values: Record<string, string>,
+  isReserved: (heading: string, index: number) => boolean = () => false
+): Promise<boolean> {
+  const header = await readSheet(spreadsheetId, HEADER_RANGE);
+  if (!header) return false;
+  const headings = (header[0] ?? []).map((h) => h.trim().toLowerCase());
+
+  let ok = true;
+  let nextColumn = Math.max(headings.length, OWNER_COLUMN_INDEX + 1);
+  const row = worker.rowIndex + 1;
+  for (const [heading, value] of Object.entries(values)) {
+    let index = headings.indexOf(heading.trim().toLowerCase());
+    if (isReserved(heading.trim().toLowerCase(), index)) {
+      console.warn(`[workers] Column "${heading}" is reserved, not writing it`);
+      ok = false;
+      continue;
+    }
+    if (index < 0) {
+      index = nextColumn++;
+      headings[index] = heading.trim().toLowerCase();
+      ok = (await updateSheet(spreadsheetId, `${columnLetter(index)}1`, [[heading.trim()]])) && ok;
+    }
+    ok = (await updateSheet(spreadsheetId, `${columnLetter(index)}${row}`, [[value]])) && ok;
+  }
+  return ok;
+}
+
+/**
+ * Writes a task status and its timestamp into a worker's row (the STATUS_HEADING
+ * and STATUS_UPDATED_HEADING columns).
+ *
+ * @returns true if the row was updated
+ */
+export async function writeWorkerStatus(
+  spreadsheetId: string,
+  worker: WorkerRow,
+  status: string,
+  updatedAt: Date
+): Promise<boolean> {
+  return writeRowByHeading(spreadsheetId, worker, {
+    [STATUS_HEADING]: status,
+    [STATUS_UPDATED_HEADING]: updatedAt.toISOString(),
+  });
+}
+
+/**
+ * Writes values into a worker's row by column heading (row 1, case-insensitive).
+ * Headings that do not exist yet are added after the last used column. Columns
+ * A to C and the status columns are never written this way.
+ *
+ * @returns true if every value was written
+ */
+export async function writeWorkerFields(
+  spreadsheetId: string,
+  worker: WorkerRow,
+  values: Record<string, string>
+): Promise<boolean> {
+  const reserved = [STATUS_HEADING, STATUS_UPDATED_HEADING].map((h) => h.toLowerCase());
+  return writeRowByHeading(
+    spreadsheetId,
+    worker,
+    values,
+    (heading, index) => (index >= 0 && index <= OWNER_COLUMN_INDEX) || reserved.includes(heading)
+  );
+}
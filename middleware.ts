@@ -0,0 +1,68 @@
+/**
+ * Access control middleware
+ * -------------------------
+ * Requires a signed-in session for the admin pages, recording and media links and the
+ * APIs they use. Pages redirect to /login; APIs answer 401 (not signed in) or
+ * 403 (viewer trying to write). The signed-in role is forwarded to route handlers in the
+ * x-auth-role header so they can apply finer checks (e.g. /api/sheets updates).
+ *
+ * Not covered here: the Telegram webhook, webhook management and scheduler tick
+ * routes, which are called by machines and check their own secrets.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ROLE_HEADER, SESSION_COOKIE, isAuthConfigured, verifySessionToken } from '@/lib/auth';
+
+/** API routes where only GET is open to viewers; any other method needs admin. */
+const ADMIN_WRITE_APIS = ['/api/cron-job', '/api/workers'];
+
+function isApi(pathname: string): boolean {
+  return pathname.startsWith('/api/');
+}
+
+function deny(request: NextRequest, status: 401 | 403 | 503, error: string): NextResponse {
+  if (isApi(request.nextUrl.pathname)) {
+    return NextResponse.json({ success: false, error }, { status });
+  }
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', request.nextUrl.pathname);
+  if (status !== 401) login.searchParams.set('error', error);
+  return NextResponse.redirect(login);
+}
+
+export async function middleware(request: NextRequest) {
+  if (!isAuthConfigured()) {
+    return deny(request, 503, 'Login is not configured. Set AUTH_SECRET and AUTH_USERS.');
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) return deny(request, 401, 'Sign in required.');
+
+  const { pathname } = request.nextUrl;
+  const needsAdmin =
+    request.method !== 'GET' && ADMIN_WRITE_APIS.some((p) => pathname === p || pathname.startsWith(`${p}/`));
+  if (needsAdmin && session.role !== 'admin') {
+    return deny(request, 403, 'Admin role required.');
+  }
+
+  // Overwrite any client-sent value so handlers can trust the header
+  const headers = new Headers(request.headers);
+  headers.set(ROLE_HEADER, session.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: [
+    '/sheet-view/:path*',
+    '/cron-job/:path*',
+    '/workers/:path*',
+    '/audio/:path*',
+    '/media/:path*',
+    '/api/sheets/:path*',
+    '/api/cron-job/:path*',
+    '/api/workers/:path*',
+    '/api/message-log/:path*',
+    '/api/tts/:path*',
+    '/api/scheduler',
+  ],
+};
@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Enables instrumentation.ts, which starts the in-process sync scheduler
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig